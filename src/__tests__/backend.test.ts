@@ -0,0 +1,246 @@
+import { createDOMBackend, detectBackend, STRING_BACKEND, toDOMFragment } from "../backend";
+import { HTML_NAMESPACE, XLINK_NAMESPACE } from "../dom";
+import { parseFragment } from "../parser";
+import { Sanitizer, setHTML, setHTMLUnsafe } from "../sanitizer";
+
+/**
+ * Just enough of the DOM for the DOM backend; parsing is delegated to the built-in parser,
+ * with scripting disabled as in templates and inert documents, and the element as context
+ */
+class FakeNode {
+  childNodes: FakeNode[] = [];
+
+  constructor(
+    public nodeType: number,
+    public ownerDocument: FakeDocument
+  ) {}
+
+  appendChild(node: FakeNode): FakeNode {
+    this.childNodes.push(...(node.nodeType === 11 ? node.childNodes : [node]));
+    return node;
+  }
+}
+
+class FakeCharacterData extends FakeNode {
+  constructor(
+    nodeType: number,
+    ownerDocument: FakeDocument,
+    public data: string
+  ) {
+    super(nodeType, ownerDocument);
+  }
+}
+
+class FakeElement extends FakeNode {
+  attributes: { name: string; value: string; namespaceURI: string | null }[] = [];
+  content?: FakeNode;
+  shadowRoot?: FakeNode & { init: object };
+
+  constructor(
+    ownerDocument: FakeDocument,
+    public namespaceURI: string,
+    public localName: string
+  ) {
+    super(1, ownerDocument);
+    if (namespaceURI === HTML_NAMESPACE && localName === "template") {
+      this.content = new FakeNode(11, ownerDocument);
+    }
+  }
+
+  setAttributeNS(namespaceURI: string | null, name: string, value: string): void {
+    if (/[\s"'>/=]/.test(name)) {
+      throw new Error("InvalidCharacterError");
+    }
+    this.attributes.push({ name, value, namespaceURI });
+  }
+
+  attachShadow(init: object): FakeNode {
+    this.shadowRoot = Object.assign(new FakeNode(11, this.ownerDocument), { init });
+    return this.shadowRoot;
+  }
+
+  replaceChildren(...nodes: FakeNode[]): void {
+    this.childNodes = [];
+    for (const node of nodes) {
+      this.appendChild(node);
+    }
+  }
+
+  set innerHTML(html: string) {
+    const parsed = toDOMFragment(
+      parseFragment(html, { scripting: false, context: this.localName }),
+      this.ownerDocument.asDocument()
+    );
+    (this.content ?? this).childNodes = (parsed as unknown as FakeNode).childNodes;
+  }
+}
+
+class FakeDocument {
+  implementation = { createHTMLDocument: () => new FakeDocument() };
+
+  createElement(name: string): FakeElement {
+    return new FakeElement(this, HTML_NAMESPACE, name);
+  }
+
+  createElementNS(namespaceURI: string, name: string): FakeElement {
+    return new FakeElement(this, namespaceURI, name);
+  }
+
+  createTextNode(data: string): FakeNode {
+    return new FakeCharacterData(3, this, data);
+  }
+
+  createComment(data: string): FakeNode {
+    return new FakeCharacterData(8, this, data);
+  }
+
+  createDocumentFragment(): FakeNode {
+    return new FakeNode(11, this);
+  }
+
+  asDocument(): Document {
+    return this as unknown as Document;
+  }
+}
+
+/**
+ * Markup-like summary of fake nodes, to compare with the string output
+ */
+function summarize(nodes: FakeNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node instanceof FakeElement) {
+        const attributes = node.attributes.map((attr) => ` ${attr.name}="${attr.value}"`).join("");
+        const children = summarize((node.content ?? node).childNodes);
+        return `<${node.localName}${attributes}>${children}</${node.localName}>`;
+      }
+      return node instanceof FakeCharacterData && node.nodeType === 3 ? node.data : "";
+    })
+    .join("");
+}
+
+describe("Sanitizer backends", () => {
+  test("should use the built-in parser outside browsers", () => {
+    expect(detectBackend()).toBe(STRING_BACKEND);
+  });
+
+  test("should use the DOM parser when DOMParser exists", () => {
+    const document = new FakeDocument();
+    const global = globalThis as { DOMParser?: unknown };
+    global.DOMParser = class {
+      parseFromString() {
+        return document;
+      }
+    };
+    try {
+      expect(detectBackend().name).toBe("dom");
+    } finally {
+      delete global.DOMParser;
+    }
+  });
+
+  test("should sanitize nodes parsed by the DOM the same way", () => {
+    const backend = createDOMBackend(new FakeDocument().asDocument());
+    const sanitizer = new Sanitizer({ backend, profiles: ["svg"] });
+    const html =
+      '<p onclick="x()">Hi <marquee>there</marquee><script>1</script></p><svg><a xlink:href="javascript:x"><text>t</text></a></svg>';
+    expect(sanitizer.sanitize(html)).toBe(new Sanitizer({ profiles: ["svg"] }).sanitize(html));
+  });
+
+  test("should parse in a body context rather than as template contents", () => {
+    const html = "<caption>a</caption><col><tr><td>b</td></tr><td>c</td><p>d</p>";
+    const backend = createDOMBackend(new FakeDocument().asDocument());
+    expect(new Sanitizer({ backend }).removeUnsafe(html)).toBe("abc<p>d</p>");
+    expect(new Sanitizer().removeUnsafe(html)).toBe("abc<p>d</p>");
+
+    // Template contents keep the table parts
+    const template = new FakeDocument().createElement("template");
+    template.innerHTML = html;
+    expect(summarize(template.content?.childNodes ?? [])).toBe(
+      "<caption>a</caption><colgroup><col></col></colgroup><tbody><tr><td>b</td></tr><tr><td>c</td></tr></tbody><p>d</p>"
+    );
+  });
+
+  test("should escape noscript text parsed with scripting disabled", () => {
+    const html = "<noscript>&lt;/noscript&gt;&lt;img src=x onerror=alert(1)&gt;</noscript>";
+    const escaped = "<noscript>&lt;/noscript&gt;&lt;img src=x onerror=alert(1)&gt;</noscript>";
+    const unscripted = {
+      name: "string",
+      parseFragment: (input: string) => parseFragment(input, { scripting: false }),
+    };
+    expect(new Sanitizer({ backend: unscripted }).removeUnsafe(html)).toBe(escaped);
+
+    const backend = createDOMBackend(new FakeDocument().asDocument());
+    expect(new Sanitizer({ backend }).removeUnsafe(html)).toBe(escaped);
+    // With scripting enabled the contents are raw text, and are kept as they are
+    expect(new Sanitizer().removeUnsafe("<noscript><b>&amp;</b></noscript>")).toBe(
+      "<noscript><b>&amp;</b></noscript>"
+    );
+  });
+
+  test("should keep attribute namespaces when importing DOM nodes", () => {
+    const backend = createDOMBackend(new FakeDocument().asDocument());
+    const fragment = backend.parseFragment('<svg><use xlink:href="#a"></use></svg>');
+    const use = (fragment.children[0] as { children: unknown[] }).children[0];
+    expect(use).toMatchObject({
+      tagName: "use",
+      attributes: [{ name: "xlink:href", value: "#a", namespace: XLINK_NAMESPACE }],
+    });
+  });
+
+  test("should build DOM nodes without a string round trip", () => {
+    const document = new FakeDocument();
+    const sanitizer = new Sanitizer();
+    const html = '<p title="t">Hello <em>World</em><img src=x onerror=alert(1)></p>';
+    const fragment = sanitizer.sanitizeToFragment(html, document.asDocument());
+    expect(summarize((fragment as unknown as FakeNode).childNodes)).toBe(
+      '<p title="t">Hello <em>World</em><img src="x"></img></p>'
+    );
+  });
+
+  test("should leave out attributes the DOM cannot create", () => {
+    const document = new FakeDocument();
+    const fragment = new Sanitizer().removeUnsafeToFragment(
+      '<p a"b="1" data-x="y">z</p>',
+      document.asDocument()
+    );
+    expect(summarize((fragment as unknown as FakeNode).childNodes)).toBe('<p data-x="y">z</p>');
+  });
+
+  test("should insert fragments in setHTML and setHTMLUnsafe", () => {
+    const document = new FakeDocument();
+    const element = document.createElement("div");
+    const target = element as unknown as HTMLElement;
+
+    setHTML(target, "<p>a<script>x</script></p>");
+    expect(summarize(element.childNodes)).toBe("<p>a</p>");
+
+    setHTMLUnsafe(target, "<p>b<marquee>c</marquee></p>");
+    expect(summarize(element.childNodes)).toBe("<p>bc</p>");
+  });
+
+  test("should attach declarative shadow roots in setHTMLUnsafe", () => {
+    const document = new FakeDocument();
+    const element = document.createElement("div");
+    setHTMLUnsafe(
+      element as unknown as HTMLElement,
+      '<my-card><template shadowrootmode="open" shadowrootdelegatesfocus><p>a<script>x</script></p></template>b</my-card>',
+      {
+        sanitizer: {
+          elements: ["my-card", "p", "template"],
+          attributes: ["shadowrootmode", "shadowrootdelegatesfocus"],
+        },
+      }
+    );
+
+    const host = element.childNodes[0] as FakeElement;
+    expect(summarize(element.childNodes)).toBe("<my-card>b</my-card>");
+    expect(host.shadowRoot?.init).toEqual({
+      mode: "open",
+      delegatesFocus: true,
+      clonable: false,
+      serializable: false,
+    });
+    expect(summarize(host.shadowRoot?.childNodes ?? [])).toBe("<p>a</p>");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * React hooks for calling components outside a renderer, shared by the React tests
+ * Hooks keep their state by call order, as in React: every call of a component takes new
+ * slots, unless it is rendered again with `rerender()`. Memos and effects run when their
+ * dependencies change, effects right away unless they are skipped as on the server.
+ *
+ * Use it from a `jest.mock()` factory:
+ *   jest.mock("react", () => require("./hooks").mockReact());
+ */
+
+interface HookSlot {
+  deps: unknown[];
+  value: unknown;
+}
+
+/**
+ * Context a hook reads, identified by its display name
+ */
+type Context = { displayName?: string };
+
+/**
+ * Options for mockReact()
+ */
+export interface MockReactOptions {
+  /** Whether effects run; `false` skips them as server rendering does (default: true) */
+  effects?: boolean;
+  /**
+   * Value of a context; by default there are no sanitizer policies and no report provider
+   */
+  useContext?: (context: Context) => unknown;
+}
+
+const hooks = { slots: [] as HookSlot[], index: 0 };
+
+/**
+ * Forget all hook state, e.g. before each test
+ */
+export function resetHooks(): void {
+  hooks.slots = [];
+  hooks.index = 0;
+}
+
+/**
+ * Value of the next hook, computed again when its dependencies changed
+ */
+function useSlot(deps: unknown[], compute: () => unknown): unknown {
+  const index = hooks.index++;
+  const slot = hooks.slots[index];
+  if (slot?.deps.every((dep, i) => Object.is(dep, deps[i]))) {
+    return slot.value;
+  }
+  hooks.slots[index] = { deps, value: compute() };
+  return hooks.slots[index].value;
+}
+
+/**
+ * Context values when a test gives none
+ */
+function defaultContext(context: Context): unknown {
+  return context.displayName === "SanitizerPolicyContext" ? new Map() : {};
+}
+
+/**
+ * Module to stand in for `react`: the actual one with hooks that run without a renderer
+ */
+export function mockReact(options: MockReactOptions = {}): object {
+  const { effects = true, useContext = defaultContext } = options;
+  return {
+    ...jest.requireActual("react"),
+    useRef: (initial: unknown) => useSlot([], () => ({ current: initial })),
+    useMemo: (compute: () => unknown, deps: unknown[]) => useSlot(deps, compute),
+    useEffect: (effect: () => void, deps: unknown[]) =>
+      useSlot(deps, () => (effects ? effect() : undefined)),
+    useContext,
+    forwardRef: (component: unknown) => component,
+  };
+}
+
+/**
+ * Rendered component whose hooks keep their state across renders
+ */
+export interface HookRender<P, T> {
+  /** Output of the first render */
+  result: T;
+  /** Render again with new props, reusing the hook state of the first render */
+  rerender(props: P): T;
+}
+
+/**
+ * Call a component (or hook) with props as a new instance
+ */
+export function renderHooks<P, T>(component: (props: P) => T, props: NoInfer<P>): HookRender<P, T> {
+  const start = hooks.index;
+  const result = component(props);
+  return {
+    result,
+    rerender(next: P): T {
+      const end = hooks.index;
+      hooks.index = start;
+      const output = component(next);
+      hooks.index = Math.max(end, hooks.index);
+      return output;
+    },
+  };
+}
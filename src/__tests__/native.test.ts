@@ -0,0 +1,182 @@
+import { install } from "../install";
+import { hasNativeSetHTML, toNativeSanitizerConfig } from "../native";
+import { Sanitizer, setHTML, setHTMLUnsafe } from "../sanitizer";
+
+/**
+ * Element with an `innerHTML` the polyfill writes to and, optionally, a native `setHTML()`
+ */
+class FakeElement {
+  innerHTML = "";
+  calls: { method: string; input: string; options?: { sanitizer?: unknown } }[] = [];
+}
+
+/**
+ * Give FakeElement a native Sanitizer API for the duration of a test
+ */
+function withNativeAPI(
+  test: () => void,
+  implementation?: (element: FakeElement, input: string, options?: object) => void
+): void {
+  const prototype = FakeElement.prototype as unknown as Record<string, unknown>;
+  for (const method of ["setHTML", "setHTMLUnsafe"]) {
+    prototype[method] = function (this: FakeElement, input: string, options?: object) {
+      this.calls.push({ method, input, options });
+      implementation?.(this, input, options);
+    };
+  }
+  try {
+    test();
+  } finally {
+    delete prototype.setHTML;
+    delete prototype.setHTMLUnsafe;
+  }
+}
+
+/**
+ * Expose FakeElement as the global Element for install()
+ */
+function withGlobalElement(test: () => void): void {
+  const global = globalThis as { Element?: unknown };
+  global.Element = FakeElement;
+  try {
+    test();
+  } finally {
+    delete global.Element;
+  }
+}
+
+describe("Native Sanitizer API", () => {
+  test("should use the polyfill when there is no native API", () => {
+    const element = new FakeElement();
+    setHTML(element as unknown as Element, "<p>a<script>x</script></p>");
+    expect(element.innerHTML).toBe("<p>a</p>");
+  });
+
+  test("should pass the default sanitizer to the native API", () => {
+    withNativeAPI(() => {
+      const element = new FakeElement();
+      setHTML(element as unknown as Element, "<p>a</p>");
+      setHTMLUnsafe(element as unknown as Element, "<p>b</p>", { sanitizer: "default" });
+      expect(element.calls).toEqual([
+        { method: "setHTML", input: "<p>a</p>", options: { sanitizer: "default" } },
+        { method: "setHTMLUnsafe", input: "<p>b</p>", options: { sanitizer: "default" } },
+      ]);
+      expect(element.innerHTML).toBe("");
+    });
+  });
+
+  test("should use the polyfill unless a custom sanitizer opts into the native API", () => {
+    withNativeAPI(() => {
+      const element = new FakeElement();
+      setHTML(element as unknown as Element, "<p>a<script>x</script></p>", {
+        sanitizer: new Sanitizer(),
+      });
+      // Link, URL and CSS policies have no native equivalent
+      setHTMLUnsafe(
+        element as unknown as Element,
+        '<p style="position: fixed"><a href="/a" target="_blank">a</a><a href="ftp://x">b</a></p>',
+        { sanitizer: { elements: ["p", "a"], attributes: ["href", "target", "style"] } }
+      );
+      expect(element.calls).toEqual([]);
+      expect(element.innerHTML).toBe(
+        '<p><a href="/a" target="_blank" rel="noopener noreferrer">a</a><a href="#">b</a></p>'
+      );
+    });
+  });
+
+  test("should translate custom configurations for the native API", () => {
+    withNativeAPI(() => {
+      const element = new FakeElement();
+      setHTMLUnsafe(element as unknown as Element, "<b>a</b>", {
+        sanitizer: { elements: ["b"], attributes: ["title"], comments: true, useNativeAPI: true },
+      });
+      expect(element.calls[0]).toMatchObject({
+        method: "setHTMLUnsafe",
+        options: { sanitizer: { elements: ["b"], attributes: ["title"], comments: true } },
+      });
+    });
+  });
+
+  test("should use the polyfill when hooks are set", () => {
+    withNativeAPI(() => {
+      const sanitizer = new Sanitizer({ useNativeAPI: true });
+      sanitizer.addHook("uponSanitizeElement", (element) =>
+        element.tagName === "em" ? "remove" : undefined
+      );
+      const element = new FakeElement();
+      setHTML(element as unknown as Element, "<p>a<em>b</em></p>", { sanitizer });
+      expect(element.calls).toEqual([]);
+      expect(element.innerHTML).toBe("<p>a</p>");
+    });
+  });
+
+  test("should fall back to the polyfill when the browser rejects the configuration", () => {
+    withNativeAPI(
+      () => {
+        const element = new FakeElement();
+        setHTML(element as unknown as Element, "<p>a</p>", {
+          sanitizer: { elements: ["p"], useNativeAPI: true },
+        });
+        expect(element.calls).toHaveLength(1);
+        expect(element.innerHTML).toBe("<p>a</p>");
+      },
+      (_element, _input, options) => {
+        if (options) {
+          throw new TypeError("Unsupported configuration");
+        }
+      }
+    );
+  });
+
+  test("should translate element and attribute lists", () => {
+    expect(
+      toNativeSanitizerConfig({ removeElements: ["marquee"], removeAttributes: ["style"] })
+    ).toEqual({ comments: false, removeElements: ["marquee"], removeAttributes: ["style"] });
+
+    const native = toNativeSanitizerConfig({
+      elements: ["p"],
+      profiles: ["svg"],
+      attributes: ["title"],
+      dataAttributes: true,
+    });
+    expect(native.elements).toContain("p");
+    expect(native.elements).toContainEqual(expect.objectContaining({ name: "svg" }));
+    expect(native).toMatchObject({ attributes: ["title"], dataAttributes: true });
+    expect(native.removeElements).toBeUndefined();
+
+    expect(
+      toNativeSanitizerConfig({ allowedElements: ["p"], disallowedAttributes: ["style"] })
+    ).toEqual({ comments: false, elements: ["p"], removeAttributes: ["style"] });
+  });
+
+  test("should install the polyfill and remove it again", () => {
+    withGlobalElement(() => {
+      const uninstall = install();
+      const element = new FakeElement() as FakeElement & {
+        setHTML(input: string): void;
+        setHTMLUnsafe(input: string): void;
+      };
+      expect(hasNativeSetHTML(element)).toBe(false);
+
+      element.setHTML("<p>a<script>x</script></p>");
+      expect(element.innerHTML).toBe("<p>a</p>");
+      element.setHTMLUnsafe("<p>b</p>");
+      expect(element.innerHTML).toBe("<p>b</p>");
+
+      uninstall();
+      expect("setHTML" in element).toBe(false);
+      expect("setHTMLUnsafe" in element).toBe(false);
+    });
+  });
+
+  test("should leave a native implementation in place", () => {
+    withNativeAPI(() => {
+      withGlobalElement(() => {
+        const native = (FakeElement.prototype as unknown as { setHTML: unknown }).setHTML;
+        const uninstall = install();
+        expect((FakeElement.prototype as unknown as { setHTML: unknown }).setHTML).toBe(native);
+        uninstall();
+      });
+    });
+  });
+});
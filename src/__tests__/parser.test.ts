@@ -0,0 +1,186 @@
+import { serializeChildren } from "../dom";
+import { MAX_TREE_DEPTH, parseFragment } from "../parser";
+import { decodeCharacterReferences } from "../tokenizer";
+
+const roundTrip = (html: string, context?: string) =>
+  serializeChildren(parseFragment(html, { context }));
+
+describe("Tokenizer", () => {
+  test("should parse quoted, unquoted and valueless attributes", () => {
+    expect(roundTrip("<img src=x onerror=alert(1) alt='a b' hidden>")).toBe(
+      '<img src="x" onerror="alert(1)" alt="a b" hidden="">'
+    );
+  });
+
+  test("should keep the first of duplicate attributes", () => {
+    expect(roundTrip('<a href="/one" HREF="/two">x</a>')).toBe('<a href="/one">x</a>');
+  });
+
+  test("should tokenize tags with many attributes in linear time", () => {
+    const attributes = Array.from({ length: 40000 }, (_, i) => ` a${i}=${i} a0=x`).join("");
+    const start = performance.now();
+    const div = parseFragment(`<div${attributes}>`).children[0];
+    expect(performance.now() - start).toBeLessThan(1000);
+    expect(div.type === "element" && div.attributes.length).toBe(40000);
+  });
+
+  test("should not end attribute values at markup inside quotes", () => {
+    expect(roundTrip('<a title="<script>alert(1)</script>">x</a>')).toBe(
+      '<a title="&lt;script&gt;alert(1)&lt;/script&gt;">x</a>'
+    );
+  });
+
+  test("should decode character references", () => {
+    expect(roundTrip("&amp; &lt; &#x61;&#98; &copy &notit; &unknown;")).toBe(
+      "&amp; &lt; ab © ¬it; &amp;unknown;"
+    );
+  });
+
+  test("should decode every named character reference", () => {
+    expect(roundTrip("<p>&RightArrow; &ThinSpace; &checkmark; &fjlig; &Afr;</p>")).toBe(
+      "<p>\u2192 \u2009 \u2713 fj \u{1d504}</p>"
+    );
+  });
+
+  test("should apply the attribute character reference quirk", () => {
+    expect(roundTrip('<a href="?a=1&copy=2&amp;b">x</a>')).toBe(
+      '<a href="?a=1&amp;copy=2&amp;b">x</a>'
+    );
+  });
+
+  test("should decode references the way browsers do", () => {
+    expect(decodeCharacterReferences("jav&#x61;script&colon;")).toBe("javascript:");
+    expect(decodeCharacterReferences("&#0;&#x110000;&#128;")).toBe("��€");
+  });
+
+  test("should treat raw text element content as text", () => {
+    expect(roundTrip("<style></p><img src=x></style>")).toBe("<style></p><img src=x></style>");
+    expect(roundTrip("<textarea></textarea><img src=x></textarea>")).toBe(
+      '<textarea></textarea><img src="x">'
+    );
+    expect(roundTrip("<title><b>x</b></title>")).toBe("<title>&lt;b&gt;x&lt;/b&gt;</title>");
+  });
+
+  test("should restore the leading newline pre, textarea and listing drop", () => {
+    expect(roundTrip("<pre>\n\na</pre><textarea>\n\nb</textarea><listing>\n\nc</listing>")).toBe(
+      "<pre>\n\na</pre><textarea>\n\nb</textarea><listing>\n\nc</listing>"
+    );
+    expect(roundTrip("<pre>\na</pre>")).toBe("<pre>a</pre>");
+  });
+
+  test("should end script data only at an appropriate end tag", () => {
+    expect(roundTrip('<script>"</scrip>"</script><b>x</b>')).toBe(
+      '<script>"</scrip>"</script><b>x</b>'
+    );
+    expect(roundTrip("<script><!--<script></script>--></script>x")).toBe(
+      "<script><!--<script></script>--></script>x"
+    );
+  });
+
+  test("should parse comments and bogus comments", () => {
+    expect(roundTrip("a<!---->b<!-->c<?php x ?>d")).toBe("a<!---->b<!---->c<!--?php x ?-->d");
+  });
+});
+
+describe("Tree builder", () => {
+  test("should close paragraphs at block elements", () => {
+    expect(roundTrip("<p>one<div>two</div></p>")).toBe("<p>one</p><div>two</div><p></p>");
+  });
+
+  test("should run the adoption agency algorithm for misnested formatting", () => {
+    expect(roundTrip("<b>1<p>2</b>3</p>")).toBe("<b>1</b><p><b>2</b>3</p>");
+    expect(roundTrip("<a>1<a>2</a>")).toBe("<a>1</a><a>2</a>");
+  });
+
+  test("should reconstruct active formatting elements", () => {
+    expect(roundTrip("<p><i>one</p>two")).toBe("<p><i>one</i></p><i>two</i>");
+  });
+
+  test("should build implied table structure", () => {
+    expect(roundTrip("<table><td>x</td></table>")).toBe(
+      "<table><tbody><tr><td>x</td></tr></tbody></table>"
+    );
+  });
+
+  test("should foster-parent misplaced table content", () => {
+    expect(roundTrip("<table><tr><td>a</td></tr>b<img src=x></table>")).toBe(
+      'b<img src="x"><table><tbody><tr><td>a</td></tr></tbody></table>'
+    );
+  });
+
+  test("should close list items implicitly", () => {
+    expect(roundTrip("<ul><li>a<li>b</ul>")).toBe("<ul><li>a</li><li>b</li></ul>");
+  });
+
+  test("should parse select content", () => {
+    expect(roundTrip("<select><option>a<option>b<img src=x></select>")).toBe(
+      "<select><option>a</option><option>b</option></select>"
+    );
+  });
+
+  test("should store template contents separately", () => {
+    const fragment = parseFragment("<template><td>x</td></template>");
+    const template = fragment.children[0];
+    expect(template.type === "element" && template.children).toEqual([]);
+    expect(serializeChildren(fragment)).toBe("<template><td>x</td></template>");
+  });
+
+  test("should parse foreign content with adjusted names", () => {
+    expect(roundTrip('<svg viewbox="0 0 1 1"><foreignobject><p>x</p></foreignobject></svg>')).toBe(
+      '<svg viewBox="0 0 1 1"><foreignObject><p>x</p></foreignObject></svg>'
+    );
+    expect(roundTrip("<svg><path/><circle></circle></svg>")).toBe(
+      "<svg><path></path><circle></circle></svg>"
+    );
+  });
+
+  test("should break out of foreign content on HTML elements", () => {
+    expect(roundTrip("<svg><p>x</p></svg>")).toBe("<svg></svg><p>x</p>");
+    expect(roundTrip("<math><mi><b>x</b></mi></math>")).toBe("<math><mi><b>x</b></mi></math>");
+  });
+
+  test("should treat style inside svg as foreign content", () => {
+    expect(roundTrip("<svg><style><img src=x></style></svg>")).toBe(
+      '<svg><style></style></svg><img src="x">'
+    );
+  });
+
+  test("should honor CDATA sections only in foreign content", () => {
+    expect(roundTrip("<svg><![CDATA[<b>]]></svg>")).toBe("<svg>&lt;b&gt;</svg>");
+    expect(roundTrip("<![CDATA[x]]>")).toBe("<!--[CDATA[x]]-->");
+  });
+
+  test("should parse in the given context element", () => {
+    expect(roundTrip("<td>x</td>", "tr")).toBe("<td>x</td>");
+    expect(roundTrip("<b>x</b>", "textarea")).toBe("&lt;b&gt;x&lt;/b&gt;");
+  });
+
+  test("should cap element nesting like Chromium", () => {
+    let node = parseFragment(`${"<div>".repeat(600)}x`).children[0];
+    let depth = 0;
+    while (node?.type === "element") {
+      depth++;
+      node = node.children[node.children.length - 1];
+    }
+    expect(depth).toBe(MAX_TREE_DEPTH - 1);
+    expect(node).toMatchObject({ type: "text", value: "x" });
+  });
+
+  test("should close deeply nested templates at the end of input", () => {
+    expect(roundTrip("<template>".repeat(5000)).startsWith("<template><template>")).toBe(true);
+  });
+
+  test("should record source offsets on elements", () => {
+    const fragment = parseFragment("ab<i>c</i>");
+    const element = fragment.children[1];
+    expect(element.type === "element" && element.sourceOffset).toBe(2);
+  });
+
+  test("should record offsets in the input before newline normalization", () => {
+    const fragment = parseFragment('a\r\n\r\n<i\r\ntitle="t">\rc</i>');
+    const element = fragment.children[1];
+    expect(element.type === "element" && element.sourceOffset).toBe(5);
+    expect(element.type === "element" && element.attributes[0].sourceOffset).toBe(9);
+    expect(element.type === "element" && element.children[0].sourceOffset).toBe(19);
+  });
+});
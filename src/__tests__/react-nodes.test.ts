@@ -0,0 +1,141 @@
+import React from "react";
+import { sanitizedHTMLToReactNodes, styleToObject } from "../react-nodes";
+import { Sanitizer } from "../sanitizer";
+
+type Element = React.ReactElement<Record<string, unknown> & { children?: unknown }>;
+
+/**
+ * First React element built from sanitized HTML
+ */
+function first(html: string): Element {
+  return sanitizedHTMLToReactNodes(html)[0] as Element;
+}
+
+describe("React elements", () => {
+  test("should build elements with their children", () => {
+    const [paragraph, text] = sanitizedHTMLToReactNodes("<p>Hello <em>World</em></p>tail");
+    const element = paragraph as Element;
+    expect(element.type).toBe("p");
+    expect(element.key).toBe("0");
+    expect(element.props.children).toEqual(["Hello ", expect.objectContaining({ type: "em" })]);
+    expect(text).toBe("tail");
+  });
+
+  test("should map attributes to props", () => {
+    const element = first(
+      '<label class="a b" for="x" tabindex="1" data-id="7" aria-label="L">t</label>'
+    );
+    expect(element.props).toMatchObject({
+      className: "a b",
+      htmlFor: "x",
+      tabIndex: "1",
+      "data-id": "7",
+      "aria-label": "L",
+    });
+    expect(element.props.class).toBeUndefined();
+  });
+
+  test("should convert style strings to objects", () => {
+    expect(first('<p style="color: red; background-color:blue">t</p>').props.style).toEqual({
+      color: "red",
+      backgroundColor: "blue",
+    });
+    expect(
+      styleToObject("--gap: 4px; -webkit-line-clamp: 2; -ms-flex: 1; font: 12px 'a;b'")
+    ).toEqual({
+      "--gap": "4px",
+      WebkitLineClamp: "2",
+      msFlex: "1",
+      font: "12px 'a;b'",
+    });
+  });
+
+  test("should pass boolean attributes as true", () => {
+    const details = first("<details open><summary>s</summary></details>");
+    expect(details.props.open).toBe(true);
+
+    const input = first('<input type="checkbox" checked disabled value="on">');
+    expect(input.props).toMatchObject({ defaultChecked: true, disabled: true, defaultValue: "on" });
+    expect(input.props).not.toHaveProperty("checked");
+    expect(input.props).not.toHaveProperty("children");
+  });
+
+  test("should leave out whitespace React cannot nest in tables", () => {
+    const table = first(
+      "<table>\n  <tbody>\n    <tr>\n      <td> a </td>\n    </tr>\n  </tbody>\n</table>"
+    );
+    // Single children are passed on their own rather than in an array
+    const tbody = table.props.children as Element;
+    const tr = tbody.props.children as Element;
+    const td = tr.props.children as Element;
+    expect([tbody.type, tr.type, td.type]).toEqual(["tbody", "tr", "td"]);
+    expect(td.props.children).toBe(" a ");
+  });
+
+  test("should use the text of a textarea as its default value", () => {
+    const textarea = first("<textarea>a &lt;b&gt;</textarea>");
+    expect(textarea.props).toMatchObject({ defaultValue: "a <b>" });
+    expect(textarea.props.children).toBeUndefined();
+  });
+
+  test("should camelCase SVG and namespaced attributes", () => {
+    const svg = first(
+      '<svg viewBox="0 0 1 1"><path stroke-width="2" d="M0 0"></path><use xlink:href="#a"></use></svg>'
+    );
+    expect(svg.props.viewBox).toBe("0 0 1 1");
+    const [path, use] = svg.props.children as Element[];
+    expect(path.props).toMatchObject({ strokeWidth: "2", d: "M0 0" });
+    expect(use.props).toMatchObject({ xlinkHref: "#a" });
+  });
+
+  test("should leave out comments, event handlers and React-only props", () => {
+    const nodes = sanitizedHTMLToReactNodes(
+      '<!--c--><p ref="r" key="k" children="c" onclick="x()" dangerouslySetInnerHTML="h">t</p>'
+    );
+    expect(nodes).toHaveLength(1);
+    const element = nodes[0] as Element;
+    expect(element.key).toBe("1");
+    expect((element as unknown as { ref: unknown }).ref).toBeNull();
+    expect(element.props).toEqual({ children: "t" });
+  });
+
+  test("should build the same elements as the sanitized HTML", () => {
+    const sanitizer = new Sanitizer();
+    const html = sanitizer.sanitize('<p title="t">Hi<script>x</script><b onclick="y()">!</b></p>');
+    const element = first(html);
+    expect(element.props).toMatchObject({ title: "t" });
+    expect(element.props.children).toEqual(["Hi", expect.objectContaining({ type: "b" })]);
+  });
+
+  test("should render components in place of elements", () => {
+    const Link = (props: { href?: string; children?: React.ReactNode }) =>
+      React.createElement("a", props);
+    const Mention = (props: { "user-id"?: string }) =>
+      React.createElement("span", null, props["user-id"]);
+    const sanitizer = new Sanitizer({
+      elements: ["p", "a", "mention", "img"],
+      attributes: ["href", "user-id", "class"],
+    });
+    const html = sanitizer.sanitize(
+      '<p><a href="/docs" class="x" onclick="y()">Docs</a> by <mention user-id="42" title="t">@ada</mention><img src=x><script>1</script></p>'
+    );
+
+    const [paragraph] = sanitizedHTMLToReactNodes(html, {
+      components: { a: Link, mention: Mention, script: Link },
+    }) as Element[];
+    const [link, , mention, image] = paragraph.props.children as Element[];
+    expect(link.type).toBe(Link);
+    expect(link.props).toEqual({ href: "/docs", className: "x", children: "Docs" });
+    expect(mention.type).toBe(Mention);
+    expect(mention.props).toEqual({ "user-id": "42", children: "@ada" });
+    expect(image.type).toBe("img");
+    expect(paragraph.props.children).toHaveLength(4);
+  });
+
+  test("should only use own entries of the component map", () => {
+    const [element] = sanitizedHTMLToReactNodes("<constructor>x</constructor>", {
+      components: {},
+    }) as Element[];
+    expect(element.type).toBe("constructor");
+  });
+});
@@ -0,0 +1,112 @@
+import type React from "react";
+import { SafeHTML, SanitizerProvider, useSafeHTML, useSanitizer } from "../react";
+import { renderHooks, resetHooks } from "./hooks";
+
+// Both contexts get the value of the provider under test
+const mockContext = jest.fn();
+jest.mock("react", () =>
+  require("./hooks").mockReact({ useContext: (context: unknown) => mockContext(context) })
+);
+
+type Element = React.ReactElement<{
+  value?: unknown;
+  children?: unknown;
+  dangerouslySetInnerHTML?: { __html: string };
+}>;
+
+const policies = {
+  default: { elements: ["p", "b", "i", "a"], attributes: ["href"] },
+  comment: { elements: ["p", "b"] },
+};
+
+/**
+ * Value a SanitizerProvider passes to the components below, under a parent value
+ */
+function provide(
+  props: React.ComponentProps<typeof SanitizerProvider>,
+  parent: unknown = new Map()
+): Map<string, unknown> {
+  mockContext.mockReturnValue(parent);
+  const element = SanitizerProvider(props) as Element;
+  return element.props.value as Map<string, unknown>;
+}
+
+/**
+ * Render under a provider value
+ * The report context gets the same value, which has no `onReport` and so sends nothing
+ */
+function withPolicies<T>(value: unknown, render: () => T): T {
+  mockContext.mockReturnValue(value);
+  return render();
+}
+
+/**
+ * Inner HTML SafeHTML renders
+ */
+function render(props: React.ComponentProps<typeof SafeHTML>): string | undefined {
+  const fragment = SafeHTML(props) as Element;
+  const wrapper = (fragment.props.children as Element[])[0];
+  return wrapper.props.dangerouslySetInnerHTML?.__html;
+}
+
+describe("SanitizerProvider", () => {
+  beforeEach(() => {
+    resetHooks();
+  });
+
+  test("should sanitize with the named policy", () => {
+    const value = provide({ policies });
+    const html = '<p><b>a</b><i>b</i><a href="/x">c</a></p>';
+    expect(withPolicies(value, () => render({ html, policy: "comment" }))).toBe(
+      "<p><b>a</b>bc</p>"
+    );
+    expect(withPolicies(value, () => render({ html }))).toBe(html);
+  });
+
+  test("should create sanitizers once per provider", () => {
+    mockContext.mockReturnValue(new Map());
+    const provider = renderHooks(SanitizerProvider, { policies });
+    const value = (provider.result as Element).props.value;
+    expect((provider.rerender({ policies: { ...policies } }) as Element).props.value).toBe(value);
+    expect(
+      (provider.rerender({ policies: { comment: { elements: ["p"] } } }) as Element).props.value
+    ).not.toBe(value);
+  });
+
+  test("should reuse the policy sanitizer when the component adds no configuration", () => {
+    const value = provide({ policies });
+    expect(withPolicies(value, () => useSanitizer(undefined, "comment"))).toBe(
+      value.get("comment")
+    );
+  });
+
+  test("should tighten outer policies without loosening them", () => {
+    const outer = provide({ policies });
+    const inner = provide(
+      {
+        policies: { comment: { elements: ["p", "b", "i", "script"] }, email: { elements: ["p"] } },
+      },
+      outer
+    );
+    expect(inner.get("default")).toBe(outer.get("default"));
+
+    const html = "<p><b>a</b><i>b</i><script>c</script></p>";
+    expect(withPolicies(inner, () => render({ html, policy: "comment" }))).toBe("<p><b>a</b>b</p>");
+    expect(withPolicies(inner, () => render({ html, policy: "email" }))).toBe("<p>ab</p>");
+  });
+
+  test("should let a component configuration only tighten the policy", () => {
+    const value = provide({ policies });
+    const { sanitizedHTML } = withPolicies(value, () =>
+      useSafeHTML("<p><b>a</b><i>b</i></p>", { elements: ["p", "i"] }, "comment")
+    );
+    expect(sanitizedHTML).toBe("<p>ab</p>");
+  });
+
+  test("should reject unknown policies", () => {
+    const value = provide({ policies });
+    expect(() => withPolicies(value, () => useSanitizer(undefined, "article"))).toThrow(
+      'Unknown sanitizer policy "article"'
+    );
+  });
+});
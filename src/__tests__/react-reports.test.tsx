@@ -0,0 +1,100 @@
+import type React from "react";
+import { SafeHTML, SanitizationReportProvider, useSafeHTML } from "../react";
+import type { SanitizeReport } from "../sanitizer";
+import { renderHooks, resetHooks } from "./hooks";
+
+const mockReportContext = jest.fn();
+
+// No sanitizer policies; the report context is the one each test sets
+jest.mock("react", () =>
+  require("./hooks").mockReact({
+    useContext: (context: { displayName?: string }) =>
+      context.displayName === "SanitizerPolicyContext" ? new Map() : mockReportContext(),
+  })
+);
+
+type Element = React.ReactElement<{ children?: unknown; value?: unknown }>;
+
+/**
+ * Context value a SanitizationReportProvider gives to the components below it
+ */
+function providerValue(onReport: (report: SanitizeReport) => void): unknown {
+  return (SanitizationReportProvider({ onReport }) as Element).props.value;
+}
+
+describe("Sanitization reports", () => {
+  beforeEach(() => {
+    resetHooks();
+    mockReportContext.mockReturnValue({});
+  });
+
+  test("should pass the report to onReport", () => {
+    const onReport = jest.fn();
+    SafeHTML({ html: "<p>a<script>b</script></p>", onReport });
+    expect(onReport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        html: "<p>a</p>",
+        actions: [expect.objectContaining({ type: "remove-element", tag: "script" })],
+      })
+    );
+  });
+
+  test("should render a custom warning with the report", () => {
+    const renderWarning = jest.fn((report: SanitizeReport) => `Removed ${report.actions.length}`);
+    const fragment = SafeHTML({ html: "<p onclick='x()'>a</p>", renderWarning }) as Element;
+    expect((fragment.props.children as unknown[])[1]).toBe("Removed 1");
+
+    const unchanged = SafeHTML({ html: "<p>a</p>", renderWarning }) as Element;
+    expect((unchanged.props.children as unknown[])[1]).toBe(false);
+    expect(renderWarning).toHaveBeenCalledTimes(1);
+  });
+
+  test("should keep the built-in warning opt-in", () => {
+    const hidden = SafeHTML({ html: "<script>x</script>" }) as Element;
+    expect((hidden.props.children as unknown[])[1]).toBe(false);
+
+    const shown = SafeHTML({
+      html: "<script>x</script>",
+      showSanitizationWarning: true,
+    }) as Element;
+    expect((shown.props.children as unknown[])[1]).toMatchObject({ type: "div" });
+  });
+
+  test("should send reports to the provider and the providers above it", () => {
+    const outer = jest.fn();
+    const inner = jest.fn();
+    mockReportContext.mockReturnValueOnce(providerValue(outer));
+    const value = providerValue(inner);
+    mockReportContext.mockReturnValue(value);
+
+    const onReport = jest.fn();
+    SafeHTML({ html: "<b>a</b><iframe></iframe>", onReport });
+    useSafeHTML("<i>b</i>");
+
+    expect(onReport).toHaveBeenCalledTimes(1);
+    expect(inner).toHaveBeenCalledTimes(2);
+    expect(outer).toHaveBeenCalledTimes(2);
+    expect(outer.mock.calls[0][0]).toBe(onReport.mock.calls[0][0]);
+  });
+
+  test("should send a report once however often the component renders", () => {
+    const first = jest.fn();
+    const latest = jest.fn();
+    const provider = renderHooks(providerValue, (report) => first(report));
+    // An inline callback does not change the context value
+    expect(provider.rerender((report) => latest(report))).toBe(provider.result);
+    mockReportContext.mockReturnValue(provider.result);
+
+    const onReport = jest.fn();
+    const html = "<b>a</b><script>x</script>";
+    const safeHTML = renderHooks(SafeHTML, { html, onReport: (report) => onReport(report) });
+    safeHTML.rerender({ html, onReport: (report) => onReport(report) });
+
+    expect(onReport).toHaveBeenCalledTimes(1);
+    expect(latest).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+
+    safeHTML.rerender({ html: "<i>b</i>", onReport });
+    expect(onReport).toHaveBeenCalledTimes(2);
+  });
+});
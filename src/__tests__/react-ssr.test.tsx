@@ -0,0 +1,70 @@
+import type React from "react";
+import { SafeHTML, useSanitizer, withSafeHTML } from "../react";
+import { Sanitizer } from "../sanitizer";
+import { renderHooks, resetHooks } from "./hooks";
+
+// Effects are skipped as on the server; no sanitizer policies and no report provider
+jest.mock("react", () => require("./hooks").mockReact({ effects: false }));
+
+type Element = React.ReactElement<{
+  children?: unknown;
+  dangerouslySetInnerHTML?: { __html: string };
+}>;
+
+/**
+ * Wrapper element rendered by SafeHTML
+ */
+function renderWrapper(props: React.ComponentProps<typeof SafeHTML>): Element {
+  const fragment = SafeHTML(props) as Element;
+  return (fragment.props.children as Element[])[0];
+}
+
+describe("Server rendering", () => {
+  beforeEach(() => {
+    resetHooks();
+  });
+
+  test("should render sanitized markup without an effect", () => {
+    const wrapper = renderWrapper({ html: '<p onclick="x()">Hi<script>1</script></p>' });
+    expect(wrapper.type).toBe("div");
+    expect(wrapper.props.dangerouslySetInnerHTML).toEqual({ __html: "<p>Hi</p>" });
+  });
+
+  test("should render elements in elements mode", () => {
+    const wrapper = renderWrapper({ html: "<p>Hi</p>", renderMode: "elements", tag: "section" });
+    expect(wrapper.type).toBe("section");
+    expect(wrapper.props.dangerouslySetInnerHTML).toBeUndefined();
+    expect(wrapper.props.children).toEqual([expect.objectContaining({ type: "p" })]);
+  });
+
+  test("should sanitize with the built-in parser even where the DOM parser exists", () => {
+    const html = "<p>Hi<img src=x onerror=y></p>";
+    const expected = new Sanitizer().sanitize(html);
+    const global = globalThis as { DOMParser?: unknown };
+    global.DOMParser = class {
+      parseFromString(): never {
+        throw new Error("DOMParser used");
+      }
+    };
+    try {
+      const wrapper = renderWrapper({ html });
+      expect(wrapper.props.dangerouslySetInnerHTML).toEqual({ __html: expected });
+    } finally {
+      delete global.DOMParser;
+    }
+  });
+
+  test("should reuse sanitizers for equal configurations", () => {
+    const hook = renderHooks(useSanitizer, { elements: ["p"] });
+    expect(hook.rerender({ elements: ["p"] })).toBe(hook.result);
+    expect(hook.rerender({ elements: ["p", "b"] })).not.toBe(hook.result);
+  });
+
+  test("should render withSafeHTML components with sanitized markup", () => {
+    const SafeSection = withSafeHTML(
+      "section" as unknown as React.ComponentType<object>
+    ) as unknown as (props: { html: string }, ref: null) => Element;
+    const element = SafeSection({ html: "<b>a</b><script>b</script>" }, null);
+    expect(element.props.dangerouslySetInnerHTML).toEqual({ __html: "<b>a</b>" });
+  });
+});
@@ -1,5 +1,31 @@
+import { getAttribute, SVG_NAMESPACE, setAttribute, XLINK_NAMESPACE } from "../dom";
 import { NodeHTMLProcessor, processServerHTML, ShadowRootProcessor, validateHTML } from "../node";
-import { Sanitizer, sanitizeHTML, setHTML, setHTMLUnsafe } from "../sanitizer";
+import { parseFragment } from "../parser";
+import {
+  DEFAULT_SANITIZER_CONFIG,
+  Sanitizer,
+  sanitizeHTML,
+  setHTML,
+  setHTMLUnsafe,
+} from "../sanitizer";
+import { querySelectorAll } from "../selectors";
+
+/**
+ * Payloads whose `<xmp>` or `<noembed>` text becomes markup once the output is parsed
+ * again, because the element ends up in MathML (mutation XSS)
+ */
+const NAMESPACE_MUTATIONS = [
+  "<math><mtext><table><mglyph><xmp><img src=x onerror=alert(1)></xmp>",
+  "<math><mtext><table><mglyph><noembed><img src=x onerror=alert(1)></noembed>",
+  "<form><math><mtext></form><form><mglyph><xmp><img src=x onerror=alert(1)></xmp>",
+];
+
+/**
+ * Elements with an event handler attribute once HTML is parsed again
+ */
+function liveHandlers(html: string): string[] {
+  return querySelectorAll(parseFragment(html), "[onerror]").map((element) => element.tagName);
+}
 
 describe("Sanitizer", () => {
   let sanitizer: Sanitizer;
@@ -44,6 +70,30 @@ describe("Sanitizer", () => {
     expect(sanitizer.sanitize(undefined as unknown as string)).toBe("");
   });
 
+  test("should remove unquoted event handler attributes", () => {
+    const html = "<img src=https://example.com/a.png onerror=alert(1)>";
+    const result = sanitizer.sanitize(html);
+    expect(result).toBe('<img src="https://example.com/a.png">');
+  });
+
+  test("should not be fooled by markup inside attribute values", () => {
+    const html = '<p title="</p><script>alert(1)</script>">Text</p>';
+    const result = sanitizer.sanitize(html);
+    expect(result).toBe('<p title="&lt;/p&gt;&lt;script&gt;alert(1)&lt;/script&gt;">Text</p>');
+  });
+
+  test("should remove nested script elements", () => {
+    const html = "<div><<script>script>alert(1)</script>/script>ok</div>";
+    const result = sanitizer.sanitize(html);
+    expect(result).toBe("<div>&lt;/script&gt;ok</div>");
+  });
+
+  test("should sanitize deeply nested and very wide input", () => {
+    expect(sanitizer.sanitize(`${"<span>".repeat(5000)}x`)).toMatch(/^(<span>)+x(<\/span>)+$/);
+    expect(sanitizer.sanitize("<div>".repeat(50000))).toMatch(/^(<div>)+(<\/div>)+$/);
+    expect(sanitizer.sanitize("<font>a</font>".repeat(40000))).toBe("a".repeat(40000));
+  });
+
   test("should work with custom configuration", () => {
     const customConfig = {
       allowedElements: ["p", "strong"],
@@ -86,6 +136,16 @@ describe("NodeHTMLProcessor", () => {
     expect(result.removedElements).toContain("script");
   });
 
+  test("should report removals from the sanitizer rather than by comparing strings", () => {
+    const html = '<p onclick="a()">x</p><script>1</script><p>y<script>2</script></p><br/>';
+    const result = processor.processHTMLWithMetadata(html);
+
+    expect(result.removedElements).toEqual(["script"]);
+    expect(result.removedAttributes).toEqual(["onclick"]);
+    expect(result.actions.filter((action) => action.tag === "script")).toHaveLength(2);
+    expect(processor.processHTMLWithMetadata("<p>a<br/>b</p>").wasModified).toBe(false);
+  });
+
   test("should validate HTML structure", () => {
     const validHTML = "<p>Hello</p>";
     const invalidHTML = "<p>Hello</div>";
@@ -169,12 +229,905 @@ describe("MDN-compatible configuration", () => {
   });
 });
 
+describe("Native config shape", () => {
+  test("should replace replaceWithChildrenElements with their children", () => {
+    const sanitizer = new Sanitizer({ replaceWithChildrenElements: ["b"] });
+    expect(sanitizer.sanitize("<p>Hello <b>bold <i>text</i></b></p>")).toBe(
+      "<p>Hello bold <i>text</i></p>"
+    );
+    expect(sanitizer.isElementAllowed("b")).toBe(false);
+  });
+
+  test("should support attributes and removeAttributes", () => {
+    const sanitizer = new Sanitizer({ attributes: ["title", "lang"], removeAttributes: ["class"] });
+    const html = '<p title="t" lang="en" class="c" id="i">Text</p>';
+    expect(sanitizer.sanitize(html)).toBe('<p title="t" lang="en">Text</p>');
+  });
+
+  test("should allow data attributes only with dataAttributes", () => {
+    const html = '<p data-id="1" data-user-name="x">Text</p>';
+    expect(new Sanitizer().sanitize(html)).toBe("<p>Text</p>");
+    expect(new Sanitizer({ dataAttributes: true }).sanitize(html)).toBe(
+      '<p data-id="1" data-user-name="x">Text</p>'
+    );
+  });
+
+  test("should keep comments only with comments: true", () => {
+    const html = "<p>Hello<!-- note --></p>";
+    expect(new Sanitizer().sanitize(html)).toBe("<p>Hello</p>");
+    expect(new Sanitizer({ comments: true }).sanitize(html)).toBe("<p>Hello<!-- note --></p>");
+  });
+
+  test("should match namespaced element and attribute entries", () => {
+    const sanitizer = new Sanitizer({
+      elements: [
+        "p",
+        { name: "svg", namespace: SVG_NAMESPACE, attributes: ["viewBox"] },
+        {
+          name: "a",
+          namespace: SVG_NAMESPACE,
+          attributes: [{ name: "href", namespace: XLINK_NAMESPACE }],
+        },
+      ],
+    });
+    const html =
+      '<p><svg viewBox="0 0 1 1"><a xlink:href="#top" fill="red">top</a></svg><a>html</a></p>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<p><svg viewBox="0 0 1 1"><a xlink:href="#top">top</a></svg>html</p>'
+    );
+    expect(sanitizer.isElementAllowed("svg")).toBe(false);
+    expect(sanitizer.isElementAllowed({ name: "svg", namespace: SVG_NAMESPACE })).toBe(true);
+  });
+
+  test("should reject overlapping lists with a TypeError", () => {
+    expect(() => new Sanitizer({ elements: ["p"], removeElements: ["p"] })).toThrow(TypeError);
+    expect(() => new Sanitizer({ elements: ["p"], replaceWithChildrenElements: ["P"] })).toThrow(
+      TypeError
+    );
+    expect(
+      () => new Sanitizer({ removeElements: ["b"], replaceWithChildrenElements: ["b"] })
+    ).toThrow(TypeError);
+    expect(() => new Sanitizer({ attributes: ["title"], removeAttributes: ["title"] })).toThrow(
+      TypeError
+    );
+    expect(
+      () =>
+        new Sanitizer({ elements: [{ name: "a", attributes: ["rel"], removeAttributes: ["rel"] }] })
+    ).toThrow(TypeError);
+  });
+});
+
+describe("Configuration methods", () => {
+  test("should move elements between lists", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.allowElement("marquee")).toBe(true);
+    expect(sanitizer.allowElement("marquee")).toBe(false);
+    expect(sanitizer.sanitize("<marquee>Hi</marquee>")).toBe("<marquee>Hi</marquee>");
+
+    expect(sanitizer.removeElement("marquee")).toBe(true);
+    expect(sanitizer.sanitize("<p>a<marquee>Hi</marquee></p>")).toBe("<p>a</p>");
+
+    expect(sanitizer.replaceElementWithChildren("marquee")).toBe(true);
+    expect(sanitizer.sanitize("<p>a<marquee>Hi</marquee></p>")).toBe("<p>aHi</p>");
+
+    const config = sanitizer.get();
+    expect(config.elements).not.toContain("marquee");
+    expect(config.removeElements).not.toContain("marquee");
+    expect(config.replaceWithChildrenElements).toEqual(["marquee"]);
+  });
+
+  test("should allow elements with per-element attributes", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.allowElement({ name: "abbr", attributes: ["lang"] });
+    expect(sanitizer.sanitize('<abbr lang="en" dir="ltr">HTML</abbr>')).toBe(
+      '<abbr lang="en">HTML</abbr>'
+    );
+    expect(() =>
+      sanitizer.allowElement({ name: "q", attributes: ["x"], removeAttributes: ["x"] })
+    ).toThrow(TypeError);
+  });
+
+  test("should allow and remove attributes", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.allowAttribute("lang")).toBe(true);
+    expect(sanitizer.isAttributeAllowed("lang")).toBe(true);
+    expect(sanitizer.removeAttribute("title")).toBe(true);
+    expect(sanitizer.sanitize('<p lang="en" title="t">x</p>')).toBe('<p lang="en">x</p>');
+    expect(sanitizer.get().disallowedAttributes).toContain("title");
+
+    sanitizer.allowAttribute("onclick");
+    expect(sanitizer.isAttributeAllowed("onclick")).toBe(false);
+  });
+
+  test("should toggle comments and data attributes", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.setComments(true)).toBe(true);
+    expect(sanitizer.setComments(true)).toBe(false);
+    expect(sanitizer.setDataAttributes(true)).toBe(true);
+    expect(sanitizer.sanitize('<p data-x="1">a<!--c--></p>')).toBe('<p data-x="1">a<!--c--></p>');
+    expect(sanitizer.get()).toMatchObject({ comments: true, stripComments: false });
+  });
+
+  test("should return a copy from get() that round-trips through the constructor", () => {
+    const sanitizer = new Sanitizer();
+    const config = sanitizer.get();
+    config.elements?.push("marquee");
+    expect(sanitizer.isElementAllowed("marquee")).toBe(false);
+    expect(DEFAULT_SANITIZER_CONFIG.elements).not.toContain("marquee");
+
+    const copy = new Sanitizer(sanitizer.get());
+    expect(copy.get()).toEqual(sanitizer.get());
+  });
+});
+
+describe("Element allowlist", () => {
+  test("should unwrap elements that are not allowed", () => {
+    const sanitizer = new Sanitizer();
+    const html = "<p><marquee>Hello <b>World</b></marquee></p>";
+    expect(sanitizer.sanitize(html)).toBe("<p>Hello <b>World</b></p>");
+  });
+
+  test("should unwrap foreign content that is not allowed", () => {
+    const sanitizer = new Sanitizer();
+    const html = "<p>Icon: <svg><g><text>label</text></g></svg></p>";
+    expect(sanitizer.sanitize(html)).toBe("<p>Icon: label</p>");
+  });
+
+  test("should drop removed elements even inside unwrapped ones", () => {
+    const sanitizer = new Sanitizer({ elements: ["p"], removeElements: ["em"] });
+    const html = "<p><span>Hello <em>italic</em> <strong>bold</strong></span></p>";
+    expect(sanitizer.sanitize(html)).toBe("<p>Hello  bold</p>");
+  });
+
+  test("should report the same answer from isElementAllowed", () => {
+    const sanitizer = new Sanitizer({ elements: ["p", "strong"], removeElements: ["em"] });
+    expect(sanitizer.isElementAllowed("P")).toBe(true);
+    expect(sanitizer.isElementAllowed("em")).toBe(false);
+    expect(sanitizer.isElementAllowed("marquee")).toBe(false);
+  });
+});
+
+describe("URL handling", () => {
+  test("should keep relative and fragment URLs", () => {
+    const sanitizer = new Sanitizer();
+    const html =
+      '<a href="/docs">Docs</a><a href="#anchor">Anchor</a><img src="../img.png"><a href="?page=2">Next</a>';
+    expect(sanitizer.sanitize(html)).toBe(html);
+  });
+
+  test("should check the resolved protocol of relative URLs against baseURL", () => {
+    const sanitizer = new Sanitizer({ baseURL: "ftp://files.example.com/pub/" });
+    expect(sanitizer.sanitize('<a href="readme.txt">Readme</a>')).toBe('<a href="#">Readme</a>');
+
+    const https = new Sanitizer({ baseURL: "https://example.com/blog/" });
+    expect(https.sanitize('<a href="../about">About</a>')).toBe('<a href="../about">About</a>');
+  });
+
+  test("should still reject absolute URLs with disallowed protocols", () => {
+    const sanitizer = new Sanitizer({ baseURL: "https://example.com/" });
+    expect(sanitizer.sanitize('<a href="java\tscript:alert(1)">x</a>')).toBe('<a href="#">x</a>');
+    expect(sanitizer.sanitize('<a href="vbscript:msgbox(1)">x</a>')).toBe('<a href="#">x</a>');
+  });
+
+  test("should handle protocol-relative URLs according to protocolRelativeUrls", () => {
+    const html = '<a href="//cdn.example.com/lib.js">CDN</a>';
+    expect(new Sanitizer().sanitize(html)).toBe(html);
+    expect(new Sanitizer({ protocolRelativeUrls: "block" }).sanitize(html)).toBe(
+      '<a href="#">CDN</a>'
+    );
+    expect(
+      new Sanitizer({ protocolRelativeUrls: "resolve", baseURL: "http://example.com/" }).sanitize(
+        html
+      )
+    ).toBe('<a href="http://cdn.example.com/lib.js">CDN</a>');
+    expect(new Sanitizer({ protocolRelativeUrls: "resolve" }).sanitize(html)).toBe(
+      '<a href="https://cdn.example.com/lib.js">CDN</a>'
+    );
+  });
+
+  test("should check every candidate of srcset", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.allowAttribute("srcset");
+    const html =
+      '<img src="a.png" srcset="a-2x.png 2x, javascript:alert(1) 3x, data:image/png;base64,AA,BB 4x, /a-640.png 640w">';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<img src="a.png" srcset="a-2x.png 2x, /a-640.png 640w">'
+    );
+    const safe = '<img src="a.png" srcset="a.png 1x,b.png 2x">';
+    expect(sanitizer.sanitize(safe)).toBe(safe);
+  });
+
+  test("should check other URL attributes", () => {
+    const sanitizer = new Sanitizer({
+      elements: ["blockquote", "video", "p", "button"],
+      removeElements: [],
+      attributes: ["cite", "poster", "background", "formaction"],
+    });
+    const html =
+      '<blockquote cite="javascript:alert(1)">q</blockquote><video poster="vbscript:x">v</video>' +
+      '<p background="data:image/png,x">p</p><button formaction="javascript:x">b</button>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<blockquote cite="#">q</blockquote><video poster="#">v</video>' +
+        '<p background="#">p</p><button formaction="#">b</button>'
+    );
+  });
+
+  test("should check xlink:href in SVG", () => {
+    const sanitizer = new Sanitizer({
+      elements: [
+        "p",
+        {
+          name: "a",
+          namespace: SVG_NAMESPACE,
+          attributes: [{ name: "href", namespace: XLINK_NAMESPACE }],
+        },
+        { name: "svg", namespace: SVG_NAMESPACE },
+      ],
+    });
+    expect(sanitizer.sanitize('<p><svg><a xlink:href="javascript:alert(1)">x</a></svg></p>')).toBe(
+      '<p><svg><a xlink:href="#">x</a></svg></p>'
+    );
+  });
+
+  test("should check the URL of meta refresh", () => {
+    const sanitizer = new Sanitizer({ elements: ["meta"], attributes: ["http-equiv", "content"] });
+    expect(
+      sanitizer.sanitize('<meta http-equiv="refresh" content="0; URL=\'javascript:alert(1)\'">')
+    ).toBe('<meta http-equiv="refresh" content="0; URL=\'#\'">');
+    expect(sanitizer.sanitize('<meta http-equiv="refresh" content="5;url=/next">')).toBe(
+      '<meta http-equiv="refresh" content="5;url=/next">'
+    );
+    expect(sanitizer.sanitize('<meta name="description" content="javascript:x">')).toBe(
+      '<meta content="javascript:x">'
+    );
+  });
+
+  test("should use a custom urlAttributes table", () => {
+    const sanitizer = new Sanitizer({
+      attributes: ["href", "ping"],
+      urlAttributes: { ...DEFAULT_SANITIZER_CONFIG.urlAttributes, ping: "url" },
+    });
+    expect(sanitizer.sanitize('<a href="/a" ping="javascript:x">a</a>')).toBe(
+      '<a href="/a" ping="#">a</a>'
+    );
+  });
+
+  test("should reject an invalid baseURL", () => {
+    expect(() => new Sanitizer({ baseURL: "/relative" })).toThrow(TypeError);
+  });
+});
+
+describe("Data URL policy", () => {
+  const png = "data:image/png;base64,iVBORw0KGgo=";
+
+  test("should reject data URLs by default", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.sanitize(`<img src="${png}">`)).toBe('<img src="#">');
+  });
+
+  test("should allow raster images in img src with allowDataUrls", () => {
+    const sanitizer = new Sanitizer({ allowDataUrls: true });
+    expect(sanitizer.sanitize(`<img src="${png}">`)).toBe(`<img src="${png}">`);
+    expect(sanitizer.sanitize(`<a href="${png}">x</a>`)).toBe('<a href="#">x</a>');
+    expect(sanitizer.sanitize('<img src="data:image/svg+xml,<svg onload=alert(1)></svg>">')).toBe(
+      '<img src="#">'
+    );
+    expect(sanitizer.sanitize('<img src="data:text/html;base64,PHNjcmlwdD4=">')).toBe(
+      '<img src="#">'
+    );
+  });
+
+  test("should enforce the MIME types, targets and size of dataUrlPolicy", () => {
+    const sanitizer = new Sanitizer({
+      dataUrlPolicy: { mimeTypes: ["image/webp"], targets: ["img[src]"], maxSize: 4 },
+    });
+    expect(sanitizer.sanitize('<img src="data:image/webp;base64,AAAA">')).toBe(
+      '<img src="data:image/webp;base64,AAAA">'
+    );
+    expect(sanitizer.sanitize('<img src="data:IMAGE/WEBP;charset=x;base64,AAAAAAAA">')).toBe(
+      '<img src="#">'
+    );
+    expect(sanitizer.sanitize(`<img src="${png}">`)).toBe('<img src="#">');
+    expect(sanitizer.sanitize('<img src="data:image/webp;base64,A">')).toBe('<img src="#">');
+  });
+});
+
+describe("CSS sanitization", () => {
+  test("should keep allowed declarations in style attributes", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.sanitize('<p style="color: red; font-weight:bold">x</p>')).toBe(
+      '<p style="color: red; font-weight: bold">x</p>'
+    );
+  });
+
+  test("should drop properties missing from the allowlist", () => {
+    const sanitizer = new Sanitizer();
+    expect(
+      sanitizer.sanitize('<p style="position: fixed; top: 0; z-index: 9999; color: blue">x</p>')
+    ).toBe('<p style="color: blue">x</p>');
+    expect(sanitizer.sanitize('<p style="position: fixed">x</p>')).toBe("<p>x</p>");
+  });
+
+  test("should check url() values against the URL policy", () => {
+    const sanitizer = new Sanitizer();
+    expect(
+      sanitizer.sanitize(
+        "<p style=\"background: url(javascript:alert(1)); background-image: url('/bg.png')\">x</p>"
+      )
+    ).toBe("<p style=\"background-image: url('/bg.png')\">x</p>");
+    expect(
+      sanitizer.sanitize('<p style="background: u\\72l(&quot;jav\\61script:x&quot;)">x</p>')
+    ).toBe("<p>x</p>");
+    expect(
+      sanitizer.sanitize("<p style=\"background-image: image-set('javascript:x' 1x)\">x</p>")
+    ).toBe("<p>x</p>");
+  });
+
+  test("should reject expression(), behavior and -moz-binding", () => {
+    const sanitizer = new Sanitizer({ allowedStyleProperties: undefined });
+    const html =
+      '<p style="width: expr/**/ession(alert(1)); behavior: url(x.htc); -moz-binding: url(x.xml#x); color: red">x</p>';
+    expect(sanitizer.sanitize(html)).toBe('<p style="color: red">x</p>');
+  });
+
+  test("should remove style elements unless sanitizeStyleElements is set", () => {
+    const css = "@import url(evil.css); p { color: red; position: fixed } .x { behavior: url(x) }";
+    expect(new Sanitizer().sanitize(`<style>${css}</style><p>x</p>`)).toBe("<p>x</p>");
+
+    const sanitizer = new Sanitizer({ sanitizeStyleElements: true });
+    expect(sanitizer.sanitize(`<style>${css}</style><p>x</p>`)).toBe(
+      "<style>p { color: red }</style><p>x</p>"
+    );
+  });
+
+  test("should sanitize nested media rules", () => {
+    const sanitizer = new Sanitizer({ sanitizeStyleElements: true });
+    const html =
+      "<style>@media (max-width: 600px) { p { color: red } } @font-face { src: url(x) }</style>";
+    expect(sanitizer.sanitize(html)).toBe(
+      "<style>@media (max-width: 600px) {p { color: red }}</style>"
+    );
+  });
+
+  test("should not let style sheets end the style element early", () => {
+    const sanitizer = new Sanitizer({ sanitizeStyleElements: true });
+    const html = '<style>p { font-family: "</style\\3e" }</style>';
+    expect(sanitizer.sanitize(html)).toBe('<style>p { font-family: "\\3c/style\\3e" }</style>');
+  });
+});
+
+describe("Attribute allowlist", () => {
+  test("should remove attributes that are not allowlisted", () => {
+    const sanitizer = new Sanitizer();
+    const html = '<p onpointerdown="alert(1)" formaction="https://evil.example" title="t">Text</p>';
+    expect(sanitizer.sanitize(html)).toBe('<p title="t">Text</p>');
+  });
+
+  test("should allow element-specific attributes only on that element", () => {
+    const sanitizer = new Sanitizer();
+    const html =
+      '<table><tbody><tr><td colspan="2">Cell</td></tr></tbody></table><div colspan="2">Div</div>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<table><tbody><tr><td colspan="2">Cell</td></tr></tbody></table><div>Div</div>'
+    );
+
+    const links =
+      '<a href="https://example.com" target="_blank">Link</a><span target="x">Span</span>';
+    expect(sanitizer.sanitize(links)).toBe(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">Link</a><span>Span</span>'
+    );
+  });
+
+  test("should support per-element removeAttributes", () => {
+    const sanitizer = new Sanitizer({
+      elements: ["p", { name: "img", removeAttributes: ["title"] }],
+      allowedAttributes: ["title", "src"],
+    });
+    const html = '<p title="a"><img src="https://example.com/a.png" title="b"></p>';
+    expect(sanitizer.sanitize(html)).toBe('<p title="a"><img src="https://example.com/a.png"></p>');
+  });
+
+  test("should report per-element answers from isAttributeAllowed", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.isAttributeAllowed("colspan", "td")).toBe(true);
+    expect(sanitizer.isAttributeAllowed("colspan", "div")).toBe(false);
+    expect(sanitizer.isAttributeAllowed("colspan")).toBe(false);
+    expect(sanitizer.isAttributeAllowed("title")).toBe(true);
+  });
+});
+
+describe("Event handler attributes", () => {
+  test("should remove every on* attribute regardless of case", () => {
+    const sanitizer = new Sanitizer({
+      allowedAttributes: ["onanimationstart", "ontoggle", "title"],
+    });
+    const html =
+      '<div onanimationstart="a()" OnPointerEnter="b()" ontoggle="c()" title="t">x</div>';
+    expect(sanitizer.sanitize(html)).toBe('<div title="t">x</div>');
+  });
+
+  test("should report event handlers as disallowed from isAttributeAllowed", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.isAttributeAllowed("onpointerenter")).toBe(false);
+    expect(sanitizer.isAttributeAllowed("ONTOGGLE", "div")).toBe(false);
+    expect(sanitizer.isAttributeAllowed(" onclick ")).toBe(false);
+  });
+
+  test("should leave event handlers to the allowlists when disabled", () => {
+    const sanitizer = new Sanitizer({
+      removeEventHandlers: false,
+      allowedAttributes: ["ontoggle"],
+    });
+    expect(sanitizer.isAttributeAllowed("ontoggle")).toBe(true);
+    expect(sanitizer.sanitize('<div ontoggle="x()" onclick="y()">x</div>')).toBe(
+      '<div ontoggle="x()">x</div>'
+    );
+  });
+
+  test("should remove every on* attribute in removeUnsafe", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.removeUnsafe('<details ontoggle="a()" onPointerDown="b()">x</details>')).toBe(
+      "<details>x</details>"
+    );
+  });
+});
+
+describe("Foreign content profiles", () => {
+  test("should keep SVG icons with the svg profile", () => {
+    const sanitizer = new Sanitizer({ profiles: ["svg"] });
+    const html =
+      '<p><svg viewBox="0 0 24 24" onload="x()"><path d="M0 0h24v24H0z" fill="red"></path><use href="#icon">i</use></svg></p>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<p><svg viewBox="0 0 24 24"><path d="M0 0h24v24H0z" fill="red"></path><use href="#icon">i</use></svg></p>'
+    );
+  });
+
+  test("should remove scripts, HTML islands and animations from SVG", () => {
+    const sanitizer = new Sanitizer({ profiles: ["svg"] });
+    const html =
+      '<svg><g><script>alert(1)</script><foreignObject><p>x</p></foreignObject><animate attributeName="href" to="javascript:alert(1)"></animate><rect width="1"></rect></g></svg>';
+    expect(sanitizer.sanitize(html)).toBe('<svg><g><rect width="1"></rect></g></svg>');
+  });
+
+  test("should check xlink:href like other URLs", () => {
+    const sanitizer = new Sanitizer({ profiles: ["svg"] });
+    const html = '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>';
+    expect(sanitizer.sanitize(html)).toBe('<svg><a xlink:href="#"><text>x</text></a></svg>');
+  });
+
+  test("should keep MathML with the mathml profile", () => {
+    const sanitizer = new Sanitizer({ profiles: ["mathml"] });
+    const html =
+      '<math display="block"><mfrac><mi>x</mi><mn>2</mn></mfrac><maction actiontype="toggle"><mi>y</mi></maction></math>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<math display="block"><mfrac><mi>x</mi><mn>2</mn></mfrac></math>'
+    );
+  });
+
+  test("should let explicit elements override profile removals", () => {
+    const sanitizer = new Sanitizer({
+      profiles: ["svg"],
+      elements: [
+        ...(DEFAULT_SANITIZER_CONFIG.elements ?? []),
+        { name: "set", namespace: SVG_NAMESPACE },
+      ],
+    });
+    expect(sanitizer.isElementAllowed({ name: "set", namespace: SVG_NAMESPACE })).toBe(true);
+    expect(sanitizer.isElementAllowed({ name: "script", namespace: SVG_NAMESPACE })).toBe(false);
+  });
+
+  test.each([
+    {},
+    { profiles: ["mathml" as const] },
+    { profiles: ["mathml" as const, "svg" as const], sanitizeStyleElements: true },
+  ])("should not let namespace confusion through with %j", (config) => {
+    const sanitizer = new Sanitizer(config);
+    const html = "<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>";
+    const result = sanitizer.sanitize(html);
+    expect(result).not.toContain("<img");
+    expect(result).not.toContain("onerror");
+  });
+
+  test("should remove HTML left directly inside SVG after unwrapping", () => {
+    const sanitizer = new Sanitizer({
+      profiles: ["svg"],
+      replaceWithChildrenElements: [{ name: "foreignObject", namespace: SVG_NAMESPACE }],
+    });
+    const html = "<svg><foreignObject><p>text</p></foreignObject><g><text>ok</text></g></svg>";
+    expect(sanitizer.sanitize(html)).toBe("<svg><g><text>ok</text></g></svg>");
+  });
+});
+
+describe("Round-trip verification", () => {
+  test("should keep output that survives being parsed again", () => {
+    const sanitizer = new Sanitizer({ verifyRoundTrip: true });
+    const html = '<p><span></span>Hello <a href="javascript:x">link</a></p>';
+    expect(sanitizer.sanitizeWithDiagnostics(html)).toEqual({
+      html: '<p>Hello <a href="#">link</a></p>',
+    });
+  });
+
+  test("should fail closed when the output mutates on reparse", () => {
+    const sanitizer = new Sanitizer({ verifyRoundTrip: true });
+    // The inner link is foster-parented out of the table, which is then removed as empty
+    const html = '<a href="/a"><table><a href="/b">y</a></table></a>';
+    const result = sanitizer.sanitizeWithDiagnostics(html);
+
+    expect(result.html).toBe("");
+    expect(result.roundTrip).toMatchObject({
+      output: '<a href="/a"><a href="/b">y</a></a>',
+      reparsed: '<a href="/a"></a><a href="/b">y</a>',
+      offset: 14,
+    });
+    expect(result.roundTrip?.message).toContain("offset 14");
+    expect(sanitizer.sanitize(html)).toBe("");
+  });
+
+  test("should keep leading newlines in pre and textarea content", () => {
+    const sanitizer = new Sanitizer({
+      elements: ["pre", "textarea", "code"],
+      removeElements: [],
+      verifyRoundTrip: true,
+    });
+    expect(sanitizer.sanitize("<pre>\n\ncode</pre>")).toBe("<pre>\n\ncode</pre>");
+    expect(sanitizer.sanitize("<pre>\ncode</pre>")).toBe("<pre>code</pre>");
+    expect(sanitizer.sanitize("<textarea>\n\nline</textarea>")).toBe(
+      "<textarea>\n\nline</textarea>"
+    );
+    expect(sanitizer.sanitize("<pre><code>\nx</code></pre>")).toBe("<pre><code>\nx</code></pre>");
+  });
+
+  test("should catch table content unwrapped from a template", () => {
+    const sanitizer = new Sanitizer({ verifyRoundTrip: true });
+    expect(sanitizer.sanitize("<template><td>x</td></template>")).toBe("");
+    expect(new Sanitizer().sanitize("<template><td>x</td></template>")).toBe("<td>x</td>");
+  });
+});
+
+describe("Sanitization report", () => {
+  test("should record every action with its reason and offset", () => {
+    const sanitizer = new Sanitizer();
+    const html =
+      '<!-- note --><p onclick="x()" data-id="1">Hi <marquee>there</marquee></p><a href="javascript:alert(1)">a</a><script>s</script>';
+    const { html: output, actions } = sanitizer.sanitizeWithReport(html);
+
+    expect(output).toBe('<p>Hi there</p><a href="#">a</a>');
+    expect(actions).toEqual([
+      { type: "remove-comment", reason: "comments", value: " note ", offset: 0 },
+      {
+        type: "remove-attribute",
+        reason: "event-handler",
+        tag: "p",
+        attribute: "onclick",
+        value: "x()",
+        offset: html.indexOf("onclick"),
+      },
+      {
+        type: "remove-attribute",
+        reason: "not-allowed",
+        tag: "p",
+        attribute: "data-id",
+        value: "1",
+        offset: html.indexOf("data-id"),
+      },
+      {
+        type: "unwrap-element",
+        reason: "not-allowed",
+        tag: "marquee",
+        offset: html.indexOf("<marquee"),
+      },
+      {
+        type: "rewrite-url",
+        reason: "unsafe-url",
+        tag: "a",
+        attribute: "href",
+        value: "javascript:alert(1)",
+        offset: html.indexOf("href"),
+      },
+      { type: "remove-element", reason: "removed", tag: "script", offset: html.indexOf("<script") },
+    ]);
+  });
+
+  test("should record stripped CSS and empty elements", () => {
+    const sanitizer = new Sanitizer();
+    const { actions } = sanitizer.sanitizeWithReport(
+      '<p style="color: red; position: fixed">x</p><span></span>'
+    );
+    expect(actions).toEqual([
+      {
+        type: "remove-css",
+        reason: "css",
+        tag: "p",
+        attribute: "style",
+        value: "position: fixed",
+        offset: 3,
+      },
+      { type: "remove-element", reason: "empty", tag: "span", offset: 44 },
+    ]);
+  });
+
+  test("should report offsets in the original input when it has CRLF newlines", () => {
+    const sanitizer = new Sanitizer();
+    const html = 'a\r\n\r\n<script>x</script>\r\n<p\r\n  id="p" onclick="y()">b</p>';
+    expect(sanitizer.sanitizeWithReport(html).actions).toMatchObject([
+      { tag: "script", offset: 5 },
+      { tag: "p", attribute: "onclick", offset: html.indexOf("onclick") },
+    ]);
+  });
+
+  test("should report nothing for clean input and leave sanitize() unaffected", () => {
+    const sanitizer = new Sanitizer({ verifyRoundTrip: true });
+    expect(sanitizer.sanitizeWithReport("<p>Hello <b>World</b></p>")).toEqual({
+      html: "<p>Hello <b>World</b></p>",
+      actions: [],
+    });
+    expect(sanitizer.sanitize("<p onclick='x'>a</p>")).toBe("<p>a</p>");
+  });
+});
+
+describe("Hooks", () => {
+  test("should let uponSanitizeElement rename elements before they are checked", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.addHook("uponSanitizeElement", (element) => {
+      if (element.tagName === "b") {
+        element.tagName = "strong";
+      } else if (element.tagName === "i") {
+        element.tagName = "marquee";
+      }
+      return undefined;
+    });
+    expect(sanitizer.sanitize("<p><b>bold</b> <i>italic</i></p>")).toBe(
+      "<p><strong>bold</strong> italic</p>"
+    );
+  });
+
+  test("should drop images from untrusted domains", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.addHook("uponSanitizeElement", (element) => {
+      const src = element.tagName === "img" ? getAttribute(element, "src") : null;
+      return src && !src.startsWith("https://cdn.example.com/") ? "remove" : undefined;
+    });
+    const html =
+      '<p><img src="https://cdn.example.com/a.png"><img src="https://evil.test/b.png">x</p>';
+    expect(sanitizer.sanitize(html)).toBe('<p><img src="https://cdn.example.com/a.png">x</p>');
+  });
+
+  test("should add rel to external links after attributes are sanitized", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.addHook("afterSanitizeAttributes", (element) => {
+      if (element.tagName === "a" && getAttribute(element, "href")?.startsWith("http")) {
+        setAttribute(element, "rel", "noopener noreferrer");
+      }
+    });
+    const html = '<a href="https://example.com" rel="opener">x</a><a href="/local">y</a>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<a href="https://example.com" rel="noopener noreferrer">x</a><a href="/local">y</a>'
+    );
+  });
+
+  test("should check attributes changed by uponSanitizeAttribute", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.addHook("uponSanitizeAttribute", (attribute) => {
+      if (attribute.name === "class") {
+        return "remove";
+      }
+      if (attribute.name === "href") {
+        attribute.value = "javascript:alert(1)";
+      }
+    });
+    const { html, actions } = sanitizer.sanitizeWithReport('<a class="c" href="/x">x</a>');
+    expect(html).toBe('<a href="#">x</a>');
+    expect(actions.map((action) => action.reason)).toEqual(["hook", "unsafe-url"]);
+  });
+
+  test("should run afterSanitize with the sanitized tree", () => {
+    const sanitizer = new Sanitizer();
+    const seen: string[] = [];
+    sanitizer.addHook("afterSanitize", (fragment) => {
+      seen.push(...fragment.children.map((child) => child.type));
+    });
+    sanitizer.sanitize("<p>a</p>text<script>x</script>");
+    expect(seen).toEqual(["element", "text"]);
+  });
+
+  test("should remove hooks", () => {
+    const sanitizer = new Sanitizer();
+    const hook = () => "remove" as const;
+    sanitizer.addHook("uponSanitizeElement", hook);
+    expect(sanitizer.sanitize("<p>a</p>")).toBe("");
+
+    expect(sanitizer.removeHook("uponSanitizeElement", hook)).toBe(true);
+    expect(sanitizer.removeHook("uponSanitizeElement")).toBe(false);
+    expect(sanitizer.sanitize("<p>a</p>")).toBe("<p>a</p>");
+  });
+
+  test("should run in removeUnsafe and ShadowRootProcessor", () => {
+    const sanitizer = new Sanitizer();
+    sanitizer.addHook("uponSanitizeElement", (element) =>
+      element.tagName === "span" ? "unwrap" : undefined
+    );
+    expect(sanitizer.removeUnsafe("<p><span>a</span></p>")).toBe("<p>a</p>");
+
+    const shadowRoot = new ShadowRootProcessor(sanitizer);
+    shadowRoot.setHTML("<div><span>b</span><script>x</script></div>");
+    expect(shadowRoot.getHTML()).toBe("<div>b</div>");
+  });
+});
+
+describe("Link policy", () => {
+  test("should add rel to links opening a new window", () => {
+    const sanitizer = new Sanitizer();
+    const html =
+      '<a href="/a" target="_blank">a</a><a href="/b" target="popup">b</a><a href="/c" target="_self">c</a>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<a href="/a" target="_blank" rel="noopener noreferrer">a</a>' +
+        '<a href="/b" target="popup" rel="noopener noreferrer">b</a>' +
+        '<a href="/c" target="_self">c</a>'
+    );
+  });
+
+  test("should merge with rel values that are allowed", () => {
+    const sanitizer = new Sanitizer({ allowedAttributes: ["href", "target", "rel"] });
+    expect(sanitizer.sanitize('<a href="/a" target="_blank" rel="author NoOpener">a</a>')).toBe(
+      '<a href="/a" target="_blank" rel="author NoOpener noreferrer">a</a>'
+    );
+  });
+
+  test("should treat targets with whitespace as new windows", () => {
+    const sanitizer = new Sanitizer();
+    expect(
+      sanitizer.sanitize(
+        '<a href="/a" target=" _self">a</a><a href="/b" target="_top\n">b</a><a href="/c" target="_PARENT">c</a>'
+      )
+    ).toBe(
+      '<a href="/a" target=" _self" rel="noopener noreferrer">a</a>' +
+        '<a href="/b" target="_top\n" rel="noopener noreferrer">b</a>' +
+        '<a href="/c" target="_PARENT">c</a>'
+    );
+  });
+
+  test("should force or strip target", () => {
+    const blank = new Sanitizer({ linkPolicy: { target: "blank", rel: ["noopener"] } });
+    expect(blank.sanitize('<a href="/a">a</a>')).toBe(
+      '<a href="/a" target="_blank" rel="noopener">a</a>'
+    );
+
+    const strip = new Sanitizer({ linkPolicy: { target: "strip" } });
+    const { html, actions } = strip.sanitizeWithReport('<a href="/a" target="_blank">a</a>');
+    expect(html).toBe('<a href="/a">a</a>');
+    expect(actions).toEqual([
+      {
+        type: "remove-attribute",
+        reason: "link-policy",
+        tag: "a",
+        attribute: "target",
+        value: "_blank",
+        offset: 13,
+      },
+    ]);
+  });
+
+  test("should report the attributes it sets", () => {
+    const html = '<a href="https://x.com" target="_blank">x</a>';
+    const { actions } = new Sanitizer().sanitizeWithReport(html);
+    expect(actions).toEqual([
+      { type: "set-attribute", reason: "link-policy", tag: "a", attribute: "rel" },
+    ]);
+    expect(new NodeHTMLProcessor().processHTMLWithMetadata(html).wasModified).toBe(true);
+
+    const blank = new Sanitizer({ linkPolicy: { target: "blank", externalClass: "external" } });
+    expect(
+      blank.sanitizeWithReport('<a href="https://x.com" target="_self" class="c">x</a>').actions
+    ).toEqual([
+      {
+        type: "set-attribute",
+        reason: "link-policy",
+        tag: "a",
+        attribute: "target",
+        value: "_self",
+        offset: 24,
+      },
+      {
+        type: "set-attribute",
+        reason: "link-policy",
+        tag: "a",
+        attribute: "class",
+        value: "c",
+        offset: 39,
+      },
+      { type: "set-attribute", reason: "link-policy", tag: "a", attribute: "rel" },
+    ]);
+  });
+
+  test("should mark external links", () => {
+    const sanitizer = new Sanitizer({
+      baseURL: "https://example.com/",
+      linkPolicy: {
+        internalHosts: ["docs.example.com"],
+        externalClass: "external",
+        externalRel: ["nofollow", "ugc"],
+      },
+    });
+    const html =
+      '<a href="https://other.test/x">1</a><a href="//docs.example.com/y">2</a><a href="/z">3</a><a href="mailto:a@b.c">4</a>';
+    expect(sanitizer.sanitize(html)).toBe(
+      '<a href="https://other.test/x" class="external" rel="nofollow ugc">1</a>' +
+        '<a href="//docs.example.com/y">2</a><a href="/z">3</a><a href="mailto:a@b.c">4</a>'
+    );
+  });
+
+  test("should leave links alone without a policy", () => {
+    const sanitizer = new Sanitizer({ linkPolicy: undefined });
+    expect(sanitizer.sanitize('<a href="/a" target="_blank">a</a>')).toBe(
+      '<a href="/a" target="_blank">a</a>'
+    );
+  });
+});
+
+describe("Tightened sanitizers", () => {
+  const outer = new Sanitizer({ elements: ["p", "b"], attributes: ["title"] });
+
+  test("should never keep what the outer sanitizer removes", () => {
+    const looser = outer.tighten({ elements: ["p", "b", "i"], attributes: ["title", "class"] });
+    expect(looser.sanitize('<p class="c" title="t"><b>x</b><i>y</i></p>')).toBe(
+      '<p title="t"><b>x</b>y</p>'
+    );
+    expect(looser.isElementAllowed("i")).toBe(false);
+    expect(looser.isAttributeAllowed("class")).toBe(false);
+    expect(looser.toNativeConfig()).toBeNull();
+  });
+
+  test("should remove more than the outer sanitizer", () => {
+    const stricter = outer.tighten({ elements: ["p"] });
+    expect(stricter.sanitize('<p title="t"><b>x</b>y</p>')).toBe('<p title="t">xy</p>');
+    expect(stricter.isElementAllowed("b")).toBe(false);
+    expect(outer.sanitize('<p title="t"><b>x</b>y</p>')).toBe('<p title="t"><b>x</b>y</p>');
+  });
+
+  test("should report the actions of both sanitizers", () => {
+    const sanitizer = outer.tighten({ elements: ["p", "i"] });
+    const { html, actions } = sanitizer.sanitizeWithReport("<p><b>x</b><i>y</i></p>");
+    expect(html).toBe("<p>xy</p>");
+    expect(actions).toEqual([
+      { type: "unwrap-element", reason: "not-allowed", tag: "b", offset: 3 },
+      { type: "unwrap-element", reason: "not-allowed", tag: "i" },
+    ]);
+  });
+});
+
 describe("removeUnsafe method", () => {
+  test("should check every URL attribute", () => {
+    const sanitizer = new Sanitizer();
+    const html =
+      '<img srcset="a.png 1x, javascript:alert(1) 2x"><button formaction="JavaScript:x">b</button>';
+    expect(sanitizer.removeUnsafe(html)).toBe(
+      '<img srcset="a.png 1x"><button formaction="#">b</button>'
+    );
+  });
+
   test("should always remove unsafe content", () => {
     const sanitizer = new Sanitizer();
     const html = '<p>Hello <script>alert("xss")</script> <div onclick="alert()">Click</div></p>';
     const result = sanitizer.removeUnsafe(html);
-    expect(result).toBe("<p>Hello  <div>Click</div></p>");
+    // <div> closes the open <p>, and the stray </p> opens an empty one, as in browsers
+    expect(result).toBe("<p>Hello  </p><div>Click</div><p></p>");
+  });
+
+  test("should remove elements that change namespace when parsed again", () => {
+    const sanitizer = new Sanitizer();
+    for (const html of NAMESPACE_MUTATIONS) {
+      const output = sanitizer.removeUnsafe(html);
+      expect(liveHandlers(output)).toEqual([]);
+    }
+  });
+
+  test("should stop SVG animations from rewriting links", () => {
+    const sanitizer = new Sanitizer();
+    const html =
+      '<svg><a><animate attributeName="href" values="javascript:alert(1)"/><set attributeName="xlink:href" to="javascript:alert(1)"/><animate attributeName="opacity" values="0;1"/><text>x</text></a></svg>';
+    expect(sanitizer.removeUnsafe(html)).toBe(
+      '<svg><a><animate values="javascript:alert(1)"></animate><set to="javascript:alert(1)"></set><animate attributeName="opacity" values="0;1"></animate><text>x</text></a></svg>'
+    );
   });
 });
 
@@ -197,6 +1150,149 @@ describe("ShadowRootProcessor", () => {
     expect(shadowRoot.getHTML()).toBe("<p>Hello <em>italic</em></p>");
   });
 
+  test("should attach declarative shadow roots", () => {
+    const processor = new ShadowRootProcessor({
+      elements: ["div", "p", "template"],
+      attributes: ["shadowrootmode", "shadowrootserializable"],
+    });
+    processor.setHTMLUnsafe(
+      '<div><template shadowrootmode="open" shadowrootserializable><p onclick="x()">Shadow<script>1</script></p></template>Light</div>'
+    );
+    expect(processor.getHTML()).toBe("<div>Light</div>");
+    expect(processor.getHTML({ serializableShadowRoots: true })).toBe(
+      '<div><template shadowrootmode="open" shadowrootserializable=""><p>Shadow</p></template>Light</div>'
+    );
+  });
+
+  test("should only serialize shadow roots declared serializable", () => {
+    const processor = new ShadowRootProcessor({
+      elements: ["div", "template"],
+      attributes: ["shadowrootmode"],
+    });
+    processor.setHTML('<div><template shadowrootmode="closed">a</template></div>');
+    expect(processor.getHTML({ serializableShadowRoots: true })).toBe("<div></div>");
+  });
+
+  test("should keep templates that cannot declare a shadow root", () => {
+    const processor = new ShadowRootProcessor({
+      elements: ["div", "template", "ul"],
+      attributes: ["shadowrootmode"],
+    });
+    processor.setHTMLUnsafe(
+      '<ul><template shadowrootmode="open">a</template></ul><div><template shadowrootmode="open">b</template><template shadowrootmode="open">c</template></div>'
+    );
+    expect(processor.getHTML()).toBe(
+      '<ul><template shadowrootmode="open">a</template></ul><div><template shadowrootmode="open">c</template></div>'
+    );
+  });
+
+  test("should allow shadowrootmode only when explicitly configured", () => {
+    const html = '<div><template shadowrootmode="open">a</template></div>';
+
+    const blocklist = new ShadowRootProcessor({
+      elements: ["div", "template"],
+      removeAttributes: ["style"],
+    });
+    blocklist.setHTMLUnsafe(html);
+    expect(blocklist.getHTML()).toBe("<div><template>a</template></div>");
+
+    shadowRoot.setHTML(html);
+    expect(shadowRoot.getHTML()).toBe("<div><template>a</template></div>");
+
+    const perElement = new ShadowRootProcessor({
+      elements: ["div", { name: "template", attributes: ["shadowrootmode"] }],
+    });
+    perElement.setHTMLUnsafe(html);
+    expect(perElement.getHTML()).toBe("<div></div>");
+  });
+
+  test("should query the sanitized tree", () => {
+    shadowRoot.setHTMLUnsafe('<div class="card"><p id="a">A</p><p onclick="x()">B</p></div>');
+    expect(shadowRoot.querySelector("#a")?.tagName).toBe("p");
+    expect(shadowRoot.querySelectorAll(".card > p")).toHaveLength(2);
+    expect(shadowRoot.querySelector("[onclick]")).toBeNull();
+  });
+
+  test("should append and replace sanitized fragments", () => {
+    shadowRoot = new ShadowRootProcessor({
+      elements: ["article", "h2", "div", "p", "img", "a"],
+      attributes: ["class", "src", "href"],
+    });
+    shadowRoot.setHTMLUnsafe(
+      '<article><h2>Comments</h2><div class="body">None yet</div></article>'
+    );
+    const body = shadowRoot.querySelector(".body") ?? undefined;
+    expect(body).toBeDefined();
+
+    shadowRoot.replaceChildren('<p>One<img src=x onerror="alert(1)"></p>', { target: body });
+    shadowRoot.append("<p>Two<script>alert(2)</script></p>", { target: body });
+    expect(shadowRoot.getHTML()).toBe(
+      '<article><h2>Comments</h2><div class="body"><p>One<img src="x"></p><p>Two</p></div></article>'
+    );
+
+    shadowRoot.replaceChildren('<a href="javascript:alert(3)">Three</a>', { target: body });
+    expect(shadowRoot.querySelectorAll(".body > *")).toHaveLength(1);
+    expect(shadowRoot.querySelector('.body a[href^="javascript"]')).toBeNull();
+
+    shadowRoot.replaceChildren("<p>Root</p>");
+    expect(shadowRoot.getHTML()).toBe("<p>Root</p>");
+    expect(() => shadowRoot.append("<p>x</p>", { target: body })).toThrow(
+      "The target element is not part of this shadow root"
+    );
+  });
+
+  test("should serialize nothing that turns into markup when parsed again", () => {
+    for (const html of NAMESPACE_MUTATIONS) {
+      shadowRoot.setHTML(html);
+      expect(liveHandlers(shadowRoot.getHTML())).toEqual([]);
+
+      shadowRoot.clear();
+      shadowRoot.append(html);
+      expect(liveHandlers(shadowRoot.getHTML())).toEqual([]);
+    }
+  });
+
+  test("should reject targets that cannot hold parsed HTML", () => {
+    shadowRoot.setHTML(
+      "<noscript>n</noscript><xmp>x</xmp><textarea>t</textarea><svg><g></g><foreignObject></foreignObject></svg>"
+    );
+    for (const selector of ["noscript", "xmp", "textarea", "g"]) {
+      const target = shadowRoot.querySelector(selector) ?? undefined;
+      expect(target).toBeDefined();
+      expect(() =>
+        shadowRoot.append("&lt;/noscript&gt;&lt;img src=x onerror=alert(1)&gt;", { target })
+      ).toThrow("cannot hold HTML content");
+    }
+
+    shadowRoot.setHTML("<table><tbody><tr><td>c</td></tr></tbody></table><p>p</p><a>a</a>");
+    for (const selector of ["table", "tbody", "tr", "p", "a"]) {
+      const target = shadowRoot.querySelector(selector) ?? undefined;
+      expect(() => shadowRoot.append("<div>x</div>", { target })).toThrow(
+        "cannot hold HTML content"
+      );
+    }
+    shadowRoot.append("<b>ok</b>", { target: shadowRoot.querySelector("td") ?? undefined });
+    expect(shadowRoot.getHTML()).toContain("<td>c<b>ok</b></td>");
+
+    shadowRoot.setHTML("<svg><foreignObject></foreignObject></svg>");
+    const foreignObject = shadowRoot.querySelector("foreignObject") ?? undefined;
+    shadowRoot.append("<p>ok</p>", { target: foreignObject });
+    expect(shadowRoot.getHTML()).toContain("<foreignObject><p>ok</p></foreignObject>");
+  });
+
+  test("should serialize the shadow roots passed to getHTML()", () => {
+    const processor = new ShadowRootProcessor({
+      elements: ["div", "template"],
+      attributes: ["shadowrootmode"],
+    });
+    processor.setHTMLUnsafe('<div><template shadowrootmode="open">a</template></div>');
+    const shadowRoot = processor.querySelector("div")?.shadowRoot;
+    expect(shadowRoot).toBeDefined();
+    expect(processor.getHTML({ shadowRoots: shadowRoot ? [shadowRoot] : [] })).toBe(
+      '<div><template shadowrootmode="open">a</template></div>'
+    );
+  });
+
   test("should clear content", () => {
     shadowRoot.setHTML("<p>Hello</p>");
     expect(shadowRoot.getHTML()).toBe("<p>Hello</p>");
@@ -0,0 +1,62 @@
+import { parseFragment } from "../parser";
+import { matches, querySelector, querySelectorAll } from "../selectors";
+
+const html =
+  '<main id="top"><ul class="list big"><li data-x="a-b">1</li><li lang="en-US">2</li><li class="last">3</li></ul><p title="Hello World">t</p><template><li>hidden</li></template><svg><foreignObject><b>b</b></foreignObject></svg></main>';
+
+/**
+ * Text content of each matched element, to identify them
+ */
+function texts(selectors: string): string[] {
+  return querySelectorAll(parseFragment(html), selectors).map((element) =>
+    element.children.map((child) => (child.type === "text" ? child.value : "")).join("")
+  );
+}
+
+describe("Selectors", () => {
+  test("should match type, id, class and universal selectors", () => {
+    expect(texts("li")).toEqual(["1", "2", "3"]);
+    expect(texts("LI.last")).toEqual(["3"]);
+    expect(querySelector(parseFragment(html), "#top")?.tagName).toBe("main");
+    expect(querySelectorAll(parseFragment(html), ".list.big")).toHaveLength(1);
+    expect(querySelectorAll(parseFragment(html), "*")).toHaveLength(10);
+  });
+
+  test("should match attribute selectors", () => {
+    expect(texts("[data-x]")).toEqual(["1"]);
+    expect(texts('[data-x="a-b"]')).toEqual(["1"]);
+    expect(texts("[lang|=en]")).toEqual(["2"]);
+    expect(texts("[title~=World]")).toEqual(["t"]);
+    expect(texts("[title^='hello' i]")).toEqual(["t"]);
+    expect(texts("[title$=World], [data-x*=-]")).toEqual(["1", "t"]);
+  });
+
+  test("should match combinators", () => {
+    expect(texts("main li")).toEqual(["1", "2", "3"]);
+    expect(texts("main > li")).toEqual([]);
+    expect(texts("li + li")).toEqual(["2", "3"]);
+    expect(texts("[data-x] ~ li")).toEqual(["2", "3"]);
+    expect(texts("ul>li[lang]")).toEqual(["2"]);
+  });
+
+  test("should compare foreign element names exactly", () => {
+    expect(texts("foreignObject b")).toEqual(["b"]);
+    expect(texts("foreignobject b")).toEqual([]);
+  });
+
+  test("should not search template contents", () => {
+    expect(texts("template li")).toEqual([]);
+  });
+
+  test("should check single elements", () => {
+    const element = querySelector(parseFragment(html), ".last");
+    expect(element && matches(element, "ul > .last")).toBe(true);
+    expect(element && matches(element, "p, main > li")).toBe(false);
+  });
+
+  test("should reject invalid and unsupported selectors", () => {
+    expect(() => querySelectorAll(parseFragment(html), "li:first-child")).toThrow(SyntaxError);
+    expect(() => querySelectorAll(parseFragment(html), "ul >")).toThrow(SyntaxError);
+    expect(() => querySelectorAll(parseFragment(html), "")).toThrow(SyntaxError);
+  });
+});
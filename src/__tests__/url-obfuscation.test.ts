@@ -0,0 +1,79 @@
+import { Sanitizer } from "../sanitizer";
+import { getUrlScheme } from "../urls";
+
+/**
+ * Known ways of hiding a `javascript:` (or other unsafe) scheme from naive checks.
+ * Each entry is an attribute value as written in HTML source; browsers decode the
+ * character references and strip the whitespace/control characters before navigating
+ */
+const BYPASS_PAYLOADS = [
+  "javascript:alert(1)",
+  "JaVaScRiPt:alert(1)",
+  "jav&#x61;script:alert(1)",
+  "jav&#x61script:alert(1)",
+  "&#106;avascript:alert(1)",
+  "&#0000106&#0000097vascript:alert(1)",
+  "&#x0000006A;avascript:alert(1)",
+  "&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A;alert(1)",
+  "javas&#99;ript:alert(1)",
+  "javascript&colon;alert(1)",
+  "jAvAsCrIpT&colon;alert&lpar;1&rpar;",
+  "java&Tab;script:alert(1)",
+  "java&NewLine;script:alert(1)",
+  "java&#9;script:alert(1)",
+  "java&#10;script:alert(1)",
+  "java&#13;script:alert(1)",
+  "javascript&#9;:alert(1)",
+  "java\tscript:alert(1)",
+  "java\nscript:alert(1)",
+  "java\rscript:alert(1)",
+  "  javascript:alert(1)",
+  "&#x20;javascript:alert(1)",
+  "&#1;javascript:alert(1)",
+  "\u0001javascript:alert(1)",
+  "\u001fjavascript:alert(1)",
+  "javascript:alert(1)\u0000",
+  "vbscript:msgbox(1)",
+  "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+  "&#100;ata:text/html,<script>alert(1)</script>",
+];
+
+/**
+ * Whitespace inside a srcset URL ends the URL, so payloads relying on it only produce a
+ * harmless relative URL there
+ */
+const SRCSET_PAYLOADS = BYPASS_PAYLOADS.filter(
+  (payload) => !/\S[\t\n\r]|&Tab;|&NewLine;|&#(9|10|13);/.test(payload)
+);
+
+describe("Obfuscated URL schemes", () => {
+  test.each(BYPASS_PAYLOADS)("sanitize() neutralizes %j", (payload) => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.sanitize(`<a href="${payload}">x</a>`)).toBe('<a href="#">x</a>');
+  });
+
+  test.each(BYPASS_PAYLOADS)("removeUnsafe() neutralizes %j", (payload) => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.removeUnsafe(`<a href="${payload}">x</a>`)).toBe('<a href="#">x</a>');
+  });
+
+  test.each(SRCSET_PAYLOADS)("srcset candidates are dropped for %j", (payload) => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.removeUnsafe(`<img srcset="a.png 1x, ${payload} 2x">`)).toBe(
+      '<img srcset="a.png 1x">'
+    );
+  });
+
+  test("should read schemes the way the URL parser does", () => {
+    expect(getUrlScheme("\u0001 java\tscript:x")).toBe("javascript:");
+    expect(getUrlScheme("/path:with-colon")).toBeNull();
+    expect(getUrlScheme("\u00a0javascript:x")).toBeNull();
+  });
+
+  test("should keep lookalikes that browsers treat as relative URLs", () => {
+    const sanitizer = new Sanitizer();
+    expect(sanitizer.removeUnsafe('<a href="./javascript:alert(1)">x</a>')).toBe(
+      '<a href="./javascript:alert(1)">x</a>'
+    );
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Parsing backends: how HTML becomes the node tree the sanitizer filters, and how a
+ * sanitized tree becomes real DOM nodes in browsers
+ */
+
+import {
+  type Attribute,
+  appendChild,
+  type ChildNode,
+  childNodesOf,
+  createComment,
+  createElement,
+  createFragment,
+  createText,
+  type DoctypeNode,
+  type FragmentNode,
+  HTML_NAMESPACE,
+  type ParentNode,
+} from "./dom";
+import { parseFragment } from "./parser";
+
+/**
+ * Source of parsed node trees for a Sanitizer
+ */
+export interface SanitizerBackend {
+  /** Backend name, e.g. `string` or `dom` */
+  readonly name: string;
+  /** Parse an HTML fragment in a `<body>` context */
+  parseFragment(html: string): FragmentNode;
+}
+
+/**
+ * Backend using the built-in HTML parser; works everywhere and records source offsets
+ */
+export const STRING_BACKEND: SanitizerBackend = { name: "string", parseFragment };
+
+/**
+ * DOM node types read when importing a parsed DOM tree
+ */
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+
+/**
+ * Copy the children of a DOM node into a node tree parent
+ * Template contents are copied into the template's own fragment
+ */
+function importChildren(parent: ParentNode, source: Node): void {
+  for (const node of Array.from(source.childNodes)) {
+    if (node.nodeType === TEXT_NODE) {
+      appendChild(parent, createText((node as Text).data));
+    } else if (node.nodeType === COMMENT_NODE) {
+      appendChild(parent, createComment((node as Comment).data));
+    } else if (node.nodeType === ELEMENT_NODE) {
+      const element = node as Element;
+      const attributes: Attribute[] = Array.from(element.attributes, (attr) =>
+        attr.namespaceURI
+          ? { name: attr.name, value: attr.value, namespace: attr.namespaceURI }
+          : { name: attr.name, value: attr.value }
+      );
+      const imported = createElement(
+        element.localName,
+        element.namespaceURI ?? HTML_NAMESPACE,
+        attributes
+      );
+      appendChild(parent, imported);
+      if (imported.content) {
+        importChildren(imported.content, (element as HTMLTemplateElement).content);
+      } else {
+        importChildren(imported, element);
+      }
+    }
+  }
+}
+
+/**
+ * Create a backend that parses with a document's own HTML parser
+ * Parsing happens in a `<body>` (not a `<template>`, whose parsing mode keeps stray table
+ * parts) of an inert document created from it: scripts do not run and resources do not load
+ */
+export function createDOMBackend(document: Document): SanitizerBackend {
+  const inert = document.implementation.createHTMLDocument("");
+  return {
+    name: "dom",
+    parseFragment(html: string): FragmentNode {
+      const body = inert.createElement("body");
+      body.innerHTML = html;
+      const fragment = createFragment();
+      importChildren(fragment, body);
+      return fragment;
+    },
+  };
+}
+
+/**
+ * Pick the backend for the current environment: the DOM parser in browsers, the
+ * built-in parser elsewhere
+ * A document from DOMParser is preferred as it never runs scripts or upgrades custom elements
+ */
+export function detectBackend(): SanitizerBackend {
+  if (typeof DOMParser !== "undefined") {
+    return createDOMBackend(new DOMParser().parseFromString("", "text/html"));
+  }
+  if (typeof document !== "undefined" && document.implementation) {
+    return createDOMBackend(document);
+  }
+  return STRING_BACKEND;
+}
+
+/**
+ * Append DOM nodes built from a node tree to a DOM parent
+ * Attributes the DOM refuses to create (names the parser accepts but `setAttribute()`
+ * does not, such as `a"b`) are left out
+ */
+function exportChildren(target: Node, parent: ParentNode, document: Document): void {
+  for (const node of childNodesOf(parent)) {
+    // Fragments cannot hold a DOCTYPE
+    if (node.type !== "doctype") {
+      target.appendChild(exportNode(node, document));
+    }
+  }
+}
+
+/**
+ * Build the DOM node for a single tree node
+ */
+function exportNode(node: Exclude<ChildNode, DoctypeNode>, document: Document): Node {
+  switch (node.type) {
+    case "text":
+      return document.createTextNode(node.value);
+    case "comment":
+      return document.createComment(node.value);
+  }
+
+  const element = document.createElementNS(node.namespace, node.tagName);
+  for (const attr of node.attributes) {
+    try {
+      element.setAttributeNS(attr.namespace ?? null, attr.name, attr.value);
+    } catch {
+      // Invalid attribute name
+    }
+  }
+  if (node.shadowRoot) {
+    const { mode, delegatesFocus, clonable, serializable } = node.shadowRoot;
+    try {
+      const shadowRoot = element.attachShadow({ mode, delegatesFocus, clonable, serializable });
+      exportChildren(shadowRoot, node.shadowRoot, document);
+    } catch {
+      // No attachShadow() in this DOM; the shadow tree is left out
+    }
+  }
+  const isTemplate = node.namespace === HTML_NAMESPACE && node.tagName === "template";
+  exportChildren(isTemplate ? (element as HTMLTemplateElement).content : element, node, document);
+  return element;
+}
+
+/**
+ * Build a DOM fragment from a sanitized node tree, ready to be inserted without reparsing
+ * Shadow roots in the tree are attached to their hosts with `attachShadow()`
+ */
+export function toDOMFragment(fragment: FragmentNode, document: Document): DocumentFragment {
+  const result = document.createDocumentFragment();
+  exportChildren(result, fragment, document);
+  return result;
+}
@@ -0,0 +1,322 @@
+/**
+ * CSS sanitization for `style` attributes and `<style>` elements
+ * The parser follows CSS Syntax closely enough to find declarations, blocks and
+ * URLs the way a browser would; everything it cannot vouch for is dropped
+ */
+
+/**
+ * Properties allowed in `style` by default
+ * Layout properties that can cover the page (`position`, `z-index`, ...) are left out
+ */
+export const DEFAULT_STYLE_PROPERTIES = [
+  "color",
+  "background",
+  "background-color",
+  "background-image",
+  "background-position",
+  "background-repeat",
+  "background-size",
+  "border",
+  "border-top",
+  "border-right",
+  "border-bottom",
+  "border-left",
+  "border-color",
+  "border-style",
+  "border-width",
+  "border-radius",
+  "border-collapse",
+  "border-spacing",
+  "margin",
+  "margin-top",
+  "margin-right",
+  "margin-bottom",
+  "margin-left",
+  "padding",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "font",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-variant",
+  "font-weight",
+  "line-height",
+  "letter-spacing",
+  "word-spacing",
+  "text-align",
+  "text-decoration",
+  "text-indent",
+  "text-transform",
+  "white-space",
+  "word-break",
+  "overflow-wrap",
+  "vertical-align",
+  "direction",
+  "width",
+  "height",
+  "min-width",
+  "min-height",
+  "max-width",
+  "max-height",
+  "display",
+  "float",
+  "clear",
+  "list-style",
+  "list-style-type",
+  "list-style-position",
+  "table-layout",
+  "caption-side",
+  "empty-cells",
+];
+
+/**
+ * Properties that run code in some browsers, removed whatever the allowlist says
+ */
+const BLOCKED_PROPERTIES = ["behavior", "-moz-binding"];
+
+/**
+ * At-rules whose nested rules are sanitized and kept; every other at-rule is dropped
+ */
+const NESTED_AT_RULES = ["media", "supports"];
+
+/**
+ * Options for CSS sanitization
+ */
+export interface CssSanitizeOptions {
+  /** Allowed properties; every property not blocked is allowed when undefined */
+  allowedProperties?: string[];
+  /** Check a URL found in `url()`, `src()` or `image-set()` */
+  isUrlAllowed: (url: string) => boolean;
+  /** Called with each declaration or rule that is stripped */
+  onRemove?: (css: string) => void;
+}
+
+/**
+ * Index of the end of the string starting at `start` (its closing quote)
+ */
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === quote || text[i] === "\n") {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Index of the first of `targets` outside strings, escapes and nested blocks, or the text length
+ */
+function findTopLevel(text: string, start: number, targets: string): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === '"' || char === "'") {
+      i = skipString(text, i);
+    } else if (depth === 0 && targets.includes(char)) {
+      return i;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth = Math.max(0, depth - 1);
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Remove comments, which CSS allows anywhere between tokens
+ */
+function stripComments(text: string): string {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\") {
+      result += text.slice(i, i + 2);
+      i += 2;
+    } else if (char === '"' || char === "'") {
+      const end = skipString(text, i);
+      result += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolve CSS escapes (`\75 rl`, `\:`) so checks see what the browser sees
+ */
+function unescapeCss(text: string): string {
+  return text.replace(
+    /\\([\da-f]{1,6})[ \t\n\r\f]?|\\(\r\n|[\s\S])/gi,
+    (_, hex: string | undefined, char: string) => {
+      if (hex === undefined) {
+        return /^[\r\n\f]/.test(char) ? "" : char;
+      }
+      const codePoint = Number.parseInt(hex, 16);
+      const isValid =
+        codePoint !== 0 && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+      return isValid ? String.fromCodePoint(codePoint) : "\ufffd";
+    }
+  );
+}
+
+/**
+ * URLs a declaration value loads: `url()` and `src()` arguments and `image-set()` strings
+ */
+function extractUrls(value: string): string[] {
+  const urls: string[] = [];
+  for (const match of value.matchAll(/(?:url|src)\(\s*(["']?)([\s\S]*?)\1\s*\)/g)) {
+    urls.push(match[2]);
+  }
+  if (value.includes("image-set(")) {
+    for (const match of value.matchAll(/(["'])([\s\S]*?)\1/g)) {
+      urls.push(match[2]);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Check a single declaration
+ */
+function isDeclarationAllowed(name: string, value: string, options: CssSanitizeOptions): boolean {
+  const property = unescapeCss(name).trim().toLowerCase();
+  if (!/^-?-?[a-z_][a-z\d_-]*$/.test(property) || BLOCKED_PROPERTIES.includes(property)) {
+    return false;
+  }
+  if (options.allowedProperties && !options.allowedProperties.includes(property)) {
+    return false;
+  }
+
+  const normalized = unescapeCss(value).toLowerCase();
+  if (/[{}]/.test(normalized) || /expression\s*\(/.test(normalized)) {
+    return false;
+  }
+  return extractUrls(normalized).every((url) => options.isUrlAllowed(url.trim()));
+}
+
+/**
+ * Sanitize a declaration list, e.g. the value of a `style` attribute
+ * Declarations are kept as written, minus comments, joined with `; `
+ */
+export function sanitizeDeclarations(text: string, options: CssSanitizeOptions): string {
+  const source = stripComments(text);
+  const kept: string[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const end = findTopLevel(source, position, ";");
+    const declaration = source.slice(position, end).trim();
+    position = end + 1;
+
+    const colon = findTopLevel(declaration, 0, ":");
+    if (colon >= declaration.length) {
+      if (declaration) {
+        options.onRemove?.(declaration);
+      }
+      continue;
+    }
+    const name = declaration.slice(0, colon).trim();
+    const value = declaration.slice(colon + 1).trim();
+    if (isDeclarationAllowed(name, value, options)) {
+      kept.push(`${name}: ${value}`);
+    } else {
+      options.onRemove?.(declaration);
+    }
+  }
+
+  return kept.join("; ");
+}
+
+/**
+ * Parse a declaration list into property names and values, e.g. to build a style object
+ * Comments and malformed declarations are left out
+ */
+export function parseDeclarations(text: string): { name: string; value: string }[] {
+  const source = stripComments(text);
+  const declarations: { name: string; value: string }[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const end = findTopLevel(source, position, ";");
+    const declaration = source.slice(position, end);
+    position = end + 1;
+
+    const colon = findTopLevel(declaration, 0, ":");
+    const name = declaration.slice(0, colon).trim();
+    const value = declaration.slice(colon + 1).trim();
+    if (colon < declaration.length && name && value) {
+      declarations.push({ name, value });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Sanitize a list of rules, keeping `@media`/`@supports` blocks and qualified rules
+ */
+function sanitizeRules(source: string, options: CssSanitizeOptions): string {
+  const rules: string[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const open = findTopLevel(source, position, "{;}");
+    const prelude = source.slice(position, open).trim();
+
+    if (open >= source.length || source[open] !== "{") {
+      // At-rule statements such as `@import` and stray tokens are dropped
+      if (prelude) {
+        options.onRemove?.(prelude);
+      }
+      position = open + 1;
+      continue;
+    }
+
+    const close = findTopLevel(source, open + 1, "}");
+    const block = source.slice(open + 1, close);
+    position = close + 1;
+
+    if (prelude.startsWith("@")) {
+      const name = /^@([\w-]+)/.exec(unescapeCss(prelude).toLowerCase())?.[1] ?? "";
+      if (!NESTED_AT_RULES.includes(name)) {
+        options.onRemove?.(`${prelude} {${block}}`);
+        continue;
+      }
+      const rulesInside = sanitizeRules(block, options);
+      if (rulesInside) {
+        rules.push(`${prelude} {${rulesInside}}`);
+      }
+    } else if (prelude) {
+      const declarations = sanitizeDeclarations(block, options);
+      if (declarations) {
+        rules.push(`${prelude} { ${declarations} }`);
+      }
+    }
+  }
+
+  return rules.join("\n");
+}
+
+/**
+ * Sanitize a style sheet, e.g. the contents of a `<style>` element
+ * The result never contains `</style`, so it cannot end the element early
+ */
+export function sanitizeStylesheet(text: string, options: CssSanitizeOptions): string {
+  return sanitizeRules(stripComments(text), options).replace(/<\/(style)/gi, "\\3c/$1");
+}
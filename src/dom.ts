@@ -0,0 +1,540 @@
+/**
+ * Lightweight node tree used by the parser, the sanitizer and the serializer
+ * Shapes follow the DOM closely enough that the tree round-trips through the
+ * HTML fragment serialization algorithm the same way a browser's does
+ */
+
+export const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+export const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+export const MATHML_NAMESPACE = "http://www.w3.org/1998/Math/MathML";
+export const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+export const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+export const XMLNS_NAMESPACE = "http://www.w3.org/2000/xmlns/";
+
+/**
+ * Element attribute
+ * `name` is the qualified name as serialized (e.g. `xlink:href`)
+ */
+export interface Attribute {
+  name: string;
+  value: string;
+  /** Attribute namespace, only set for adjusted foreign attributes */
+  namespace?: string;
+  /** Offset of the attribute name in the parsed source */
+  sourceOffset?: number;
+}
+
+/**
+ * Element node
+ */
+export interface ElementNode {
+  type: "element";
+  /** Local name, lowercase for HTML and case-adjusted for SVG */
+  tagName: string;
+  namespace: string;
+  attributes: Attribute[];
+  children: ChildNode[];
+  parent: ParentNode | null;
+  /** Template contents, only present on HTML `<template>` elements */
+  content?: FragmentNode;
+  /** Shadow root attached from a declarative `<template shadowrootmode>` */
+  shadowRoot?: ShadowRootNode;
+  /** Offset of the start tag in the parsed source */
+  sourceOffset?: number;
+}
+
+/**
+ * Text node
+ */
+export interface TextNode {
+  type: "text";
+  value: string;
+  parent: ParentNode | null;
+  sourceOffset?: number;
+}
+
+/**
+ * Comment node
+ */
+export interface CommentNode {
+  type: "comment";
+  value: string;
+  parent: ParentNode | null;
+  sourceOffset?: number;
+}
+
+/**
+ * DOCTYPE node
+ */
+export interface DoctypeNode {
+  type: "doctype";
+  name: string;
+  parent: ParentNode | null;
+  sourceOffset?: number;
+}
+
+/**
+ * Document fragment (root of a parsed fragment and of template contents)
+ */
+export interface FragmentNode {
+  type: "fragment";
+  children: ChildNode[];
+  parent: null;
+  /** Whether `<noscript>` contents were parsed as raw text, as with scripting enabled */
+  scripting?: boolean;
+}
+
+/**
+ * Shadow root of an element, with the options of its declarative `<template>`
+ */
+export interface ShadowRootNode extends FragmentNode {
+  mode: "open" | "closed";
+  delegatesFocus: boolean;
+  clonable: boolean;
+  serializable: boolean;
+}
+
+export type ChildNode = ElementNode | TextNode | CommentNode | DoctypeNode;
+export type ParentNode = ElementNode | FragmentNode;
+export type Node = ChildNode | FragmentNode;
+
+/**
+ * HTML elements that never have children or an end tag
+ */
+export const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "basefont",
+  "bgsound",
+  "br",
+  "col",
+  "embed",
+  "frame",
+  "hr",
+  "img",
+  "input",
+  "keygen",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * HTML elements whose text children are serialized without escaping
+ */
+const RAW_TEXT_PARENTS = new Set([
+  "style",
+  "script",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+  "plaintext",
+]);
+
+/**
+ * HTML elements whose start tag swallows one leading newline when parsed
+ */
+const LEADING_NEWLINE_ELEMENTS = new Set(["pre", "textarea", "listing"]);
+
+/**
+ * HTML elements that can host a shadow root, besides custom elements
+ */
+const SHADOW_HOST_ELEMENTS = new Set([
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "div",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "main",
+  "nav",
+  "p",
+  "section",
+  "span",
+]);
+
+/**
+ * Serialization options, as for `Element.getHTML()`
+ */
+export interface SerializeOptions {
+  /** Serialize shadow roots marked serializable as declarative `<template>` elements */
+  serializableShadowRoots?: boolean;
+  /** Shadow roots to serialize whether or not they are marked serializable */
+  shadowRoots?: ShadowRootNode[];
+}
+
+/**
+ * Create an element node
+ */
+export function createElement(
+  tagName: string,
+  namespace: string = HTML_NAMESPACE,
+  attributes: Attribute[] = []
+): ElementNode {
+  const element: ElementNode = {
+    type: "element",
+    tagName,
+    namespace,
+    attributes,
+    children: [],
+    parent: null,
+  };
+  if (tagName === "template" && namespace === HTML_NAMESPACE) {
+    element.content = createFragment();
+  }
+  return element;
+}
+
+/**
+ * Create a text node
+ */
+export function createText(value: string): TextNode {
+  return { type: "text", value, parent: null };
+}
+
+/**
+ * Create a comment node
+ */
+export function createComment(value: string): CommentNode {
+  return { type: "comment", value, parent: null };
+}
+
+/**
+ * Create an empty document fragment
+ */
+export function createFragment(): FragmentNode {
+  return { type: "fragment", children: [], parent: null };
+}
+
+/**
+ * Insert a node into a parent before the given reference child (or at the end)
+ */
+export function insertBefore(
+  parent: ParentNode,
+  node: ChildNode,
+  reference: ChildNode | null = null
+): void {
+  if (node.parent) {
+    removeNode(node);
+  }
+  const index = reference ? parent.children.indexOf(reference) : -1;
+  if (index === -1) {
+    parent.children.push(node);
+  } else {
+    parent.children.splice(index, 0, node);
+  }
+  node.parent = parent;
+}
+
+/**
+ * Append a node to a parent
+ */
+export function appendChild(parent: ParentNode, node: ChildNode): void {
+  insertBefore(parent, node, null);
+}
+
+/**
+ * Detach a node from its parent
+ */
+export function removeNode(node: ChildNode): void {
+  const parent = node.parent;
+  if (!parent) {
+    return;
+  }
+  const index = parent.children.indexOf(node);
+  if (index !== -1) {
+    parent.children.splice(index, 1);
+  }
+  node.parent = null;
+}
+
+/**
+ * Move all children of a node to the end of another, in one pass
+ */
+export function moveChildren(from: ParentNode, to: ParentNode): void {
+  for (const child of from.children) {
+    child.parent = to;
+    to.children.push(child);
+  }
+  from.children = [];
+}
+
+/**
+ * Replace an element with its own children (template contents for `<template>`)
+ */
+export function replaceWithChildren(element: ElementNode): void {
+  const parent = element.parent;
+  if (!parent) {
+    return;
+  }
+  const children = childNodesOf(element);
+  const index = parent.children.indexOf(element);
+  for (const child of children) {
+    child.parent = parent;
+  }
+  parent.children = [
+    ...parent.children.slice(0, index),
+    ...children,
+    ...parent.children.slice(index + 1),
+  ];
+  containerOf(element).children = [];
+  element.parent = null;
+}
+
+/**
+ * Get an attribute value by qualified name
+ */
+export function getAttribute(element: ElementNode, name: string): string | null {
+  const attribute = element.attributes.find((attr) => attr.name === name);
+  return attribute ? attribute.value : null;
+}
+
+/**
+ * Set an attribute value, adding the attribute if missing
+ */
+export function setAttribute(element: ElementNode, name: string, value: string): void {
+  const attribute = element.attributes.find((attr) => attr.name === name);
+  if (attribute) {
+    attribute.value = value;
+  } else {
+    element.attributes.push({ name, value });
+  }
+}
+
+/**
+ * Remove an attribute by qualified name
+ */
+export function removeAttribute(element: ElementNode, name: string): void {
+  element.attributes = element.attributes.filter((attr) => attr.name !== name);
+}
+
+/**
+ * Node holding the children of a parent node: template contents for `<template>`
+ */
+export function containerOf(node: ParentNode): ParentNode {
+  return node.type === "element" && node.content ? node.content : node;
+}
+
+/**
+ * Children of a parent node, looking through `<template>` to its contents
+ */
+export function childNodesOf(node: ParentNode): ChildNode[] {
+  return containerOf(node).children;
+}
+
+/**
+ * Check whether an element can host a shadow root
+ */
+function isShadowHost(element: ElementNode): boolean {
+  return (
+    element.namespace === HTML_NAMESPACE &&
+    (SHADOW_HOST_ELEMENTS.has(element.tagName) || /^[a-z][^A-Z]*-/.test(element.tagName))
+  );
+}
+
+/**
+ * Turn declarative shadow roots (`<template shadowrootmode="open|closed">`) into shadow
+ * roots of their parent elements, as the HTML parser does in `setHTMLUnsafe()`
+ * Templates whose parent cannot host a shadow root, or already has one, stay templates
+ */
+export function attachDeclarativeShadowRoots(parent: ParentNode): void {
+  for (const node of [...childNodesOf(parent)]) {
+    if (node.type !== "element") {
+      continue;
+    }
+
+    const mode = getAttribute(node, "shadowrootmode")?.toLowerCase();
+    const host = parent.type === "element" ? parent : null;
+    if (
+      node.content &&
+      (mode === "open" || mode === "closed") &&
+      host &&
+      isShadowHost(host) &&
+      !host.shadowRoot
+    ) {
+      const shadowRoot: ShadowRootNode = {
+        ...createFragment(),
+        mode,
+        delegatesFocus: getAttribute(node, "shadowrootdelegatesfocus") !== null,
+        clonable: getAttribute(node, "shadowrootclonable") !== null,
+        serializable: getAttribute(node, "shadowrootserializable") !== null,
+      };
+      moveChildren(node.content, shadowRoot);
+      removeNode(node);
+      host.shadowRoot = shadowRoot;
+      attachDeclarativeShadowRoots(shadowRoot);
+      continue;
+    }
+
+    attachDeclarativeShadowRoots(node);
+  }
+}
+
+/**
+ * Escape text for use in a text node
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/\u00a0/g, "&nbsp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape text for use in a double-quoted attribute value
+ * `<` and `>` are escaped too so serialized attributes can never reopen markup on reparse
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/\u00a0/g, "&nbsp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Start tag of an element
+ */
+function serializeStartTag(element: ElementNode): string {
+  const attributes = element.attributes
+    .map((attr) => ` ${attr.name}="${escapeAttribute(attr.value)}"`)
+    .join("");
+  return `<${element.tagName}${attributes}>`;
+}
+
+/**
+ * Serialize a text node, unescaped inside raw text elements
+ * `<noscript>` only holds raw text when the tree was parsed with scripting enabled; text
+ * parsed without scripting may contain markup, such as `</noscript>`, and is escaped
+ */
+function serializeText(node: TextNode, parent: ParentNode, scripting: boolean): string {
+  if (
+    parent.type === "element" &&
+    parent.namespace === HTML_NAMESPACE &&
+    (RAW_TEXT_PARENTS.has(parent.tagName) || (scripting && parent.tagName === "noscript"))
+  ) {
+    return node.value;
+  }
+  return escapeText(node.value);
+}
+
+/**
+ * Whether the tree holding a node was parsed with scripting enabled
+ */
+function parsedWithScripting(node: ParentNode): boolean {
+  let root: ParentNode = node;
+  while (root.parent) {
+    root = root.parent;
+  }
+  return root.type === "fragment" && root.scripting === true;
+}
+
+/**
+ * Whether an element drops a leading newline on reparse and its content begins with one
+ */
+function startsWithNewline(element: ElementNode): boolean {
+  const first = element.children[0];
+  return (
+    element.namespace === HTML_NAMESPACE &&
+    LEADING_NEWLINE_ELEMENTS.has(element.tagName) &&
+    first?.type === "text" &&
+    first.value.startsWith("\n")
+  );
+}
+
+/**
+ * Shadow root of an element to serialize with it, if any
+ */
+function serializedShadowRoot(
+  element: ElementNode,
+  options: SerializeOptions
+): ShadowRootNode | undefined {
+  const shadowRoot = element.shadowRoot;
+  return shadowRoot &&
+    ((shadowRoot.serializable && options.serializableShadowRoots) ||
+      options.shadowRoots?.includes(shadowRoot))
+    ? shadowRoot
+    : undefined;
+}
+
+/**
+ * Start tag of the declarative `<template>` that creates a shadow root
+ */
+function shadowRootStartTag(shadowRoot: ShadowRootNode): string {
+  const attributes = [
+    ` shadowrootmode="${shadowRoot.mode}"`,
+    shadowRoot.delegatesFocus ? ' shadowrootdelegatesfocus=""' : "",
+    shadowRoot.serializable ? ' shadowrootserializable=""' : "",
+    shadowRoot.clonable ? ' shadowrootclonable=""' : "",
+  ].join("");
+  return `<template${attributes}>`;
+}
+
+/**
+ * Serialize the children of a node (HTML fragment serialization algorithm)
+ * The walk is iterative, so deeply nested trees cannot overflow the call stack
+ */
+export function serializeChildren(node: ParentNode, options: SerializeOptions = {}): string {
+  const output: string[] = [];
+  const scripting = parsedWithScripting(node);
+  // Nodes still to serialize with their parent, and end tags, in reverse order
+  const pending: ({ node: ChildNode; parent: ParentNode } | string)[] = [];
+  const pushChildren = (parent: ParentNode) => {
+    const children = childNodesOf(parent);
+    for (let i = children.length - 1; i >= 0; i--) {
+      pending.push({ node: children[i], parent });
+    }
+  };
+
+  pushChildren(node);
+  for (let item = pending.pop(); item !== undefined; item = pending.pop()) {
+    if (typeof item === "string") {
+      output.push(item);
+      continue;
+    }
+    const { node: child, parent } = item;
+    switch (child.type) {
+      case "element": {
+        output.push(serializeStartTag(child));
+        if (child.namespace === HTML_NAMESPACE && VOID_ELEMENTS.has(child.tagName)) {
+          break;
+        }
+        pending.push(`</${child.tagName}>`);
+        pushChildren(child);
+        const shadowRoot = serializedShadowRoot(child, options);
+        if (shadowRoot) {
+          pending.push("</template>");
+          pushChildren(shadowRoot);
+          output.push(shadowRootStartTag(shadowRoot));
+        } else if (startsWithNewline(child)) {
+          // Replace the newline the parser drops, so leading blank lines survive a reparse
+          output.push("\n");
+        }
+        break;
+      }
+      case "text":
+        output.push(serializeText(child, parent, scripting));
+        break;
+      case "comment":
+        output.push(`<!--${child.value}-->`);
+        break;
+      case "doctype":
+        output.push(`<!DOCTYPE ${child.name}>`);
+        break;
+    }
+  }
+  return output.join("");
+}
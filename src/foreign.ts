@@ -0,0 +1,374 @@
+/**
+ * Foreign content (SVG and MathML): opt-in sanitization profiles and the namespace
+ * rules that keep a sanitized tree parsing back into the same tree
+ */
+
+import {
+  type ElementNode,
+  HTML_NAMESPACE,
+  MATHML_NAMESPACE,
+  SVG_NAMESPACE,
+  XLINK_NAMESPACE,
+} from "./dom";
+import { isHTMLIntegrationPoint, isMathMLTextIntegrationPoint } from "./parser";
+import type { SanitizerElementConfig, SanitizerElementNamespace } from "./sanitizer";
+
+/**
+ * Name of an opt-in foreign content profile
+ */
+export type SanitizerProfile = "svg" | "mathml";
+
+/**
+ * Elements a profile allows and removes
+ */
+interface ProfileConfig {
+  elements: SanitizerElementConfig[];
+  removeElements: SanitizerElementNamespace[];
+}
+
+/**
+ * SVG elements allowed by the `svg` profile (drawing, text, gradients and filters)
+ */
+const SVG_ELEMENTS = [
+  "svg",
+  "a",
+  "circle",
+  "clipPath",
+  "defs",
+  "desc",
+  "ellipse",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "filter",
+  "g",
+  "line",
+  "linearGradient",
+  "marker",
+  "mask",
+  "metadata",
+  "path",
+  "pattern",
+  "polygon",
+  "polyline",
+  "radialGradient",
+  "rect",
+  "stop",
+  "symbol",
+  "text",
+  "textPath",
+  "title",
+  "tspan",
+  "use",
+];
+
+/**
+ * Presentation and geometry attributes allowed on SVG elements by the `svg` profile
+ */
+const SVG_ATTRIBUTES = [
+  "viewBox",
+  "preserveAspectRatio",
+  "x",
+  "y",
+  "x1",
+  "x2",
+  "y1",
+  "y2",
+  "cx",
+  "cy",
+  "r",
+  "rx",
+  "ry",
+  "fx",
+  "fy",
+  "d",
+  "points",
+  "dx",
+  "dy",
+  "rotate",
+  "textLength",
+  "lengthAdjust",
+  "transform",
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "stroke",
+  "stroke-width",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "opacity",
+  "color",
+  "visibility",
+  "display",
+  "overflow",
+  "clip-path",
+  "clip-rule",
+  "clipPathUnits",
+  "mask",
+  "maskUnits",
+  "maskContentUnits",
+  "filter",
+  "filterUnits",
+  "primitiveUnits",
+  "offset",
+  "stop-color",
+  "stop-opacity",
+  "gradientUnits",
+  "gradientTransform",
+  "spreadMethod",
+  "patternUnits",
+  "patternContentUnits",
+  "patternTransform",
+  "markerWidth",
+  "markerHeight",
+  "markerUnits",
+  "refX",
+  "refY",
+  "orient",
+  "marker-start",
+  "marker-mid",
+  "marker-end",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "text-anchor",
+  "text-decoration",
+  "dominant-baseline",
+  "alignment-baseline",
+  "baseline-shift",
+  "letter-spacing",
+  "word-spacing",
+  "startOffset",
+  "method",
+  "spacing",
+  "in",
+  "in2",
+  "result",
+  "mode",
+  "operator",
+  "type",
+  "values",
+  "tableValues",
+  "slope",
+  "intercept",
+  "amplitude",
+  "exponent",
+  "k1",
+  "k2",
+  "k3",
+  "k4",
+  "radius",
+  "stdDeviation",
+  "edgeMode",
+  "flood-color",
+  "flood-opacity",
+  "shape-rendering",
+  "text-rendering",
+  "image-rendering",
+  "vector-effect",
+  "href",
+  { name: "href", namespace: XLINK_NAMESPACE },
+  "role",
+  "focusable",
+];
+
+/**
+ * SVG elements removed with their content by the `svg` profile: scripts, style sheets,
+ * HTML islands and animations (which can rewrite attributes such as `href` after sanitizing)
+ */
+const SVG_REMOVED_ELEMENTS = [
+  "script",
+  "style",
+  "foreignObject",
+  "animate",
+  "animateMotion",
+  "animateTransform",
+  "set",
+  "discard",
+];
+
+/**
+ * MathML elements allowed by the `mathml` profile (MathML Core presentation markup)
+ * `mglyph` and `malignmark` are left out: they change namespace depending on context
+ */
+const MATHML_ELEMENTS = [
+  "math",
+  "annotation",
+  "merror",
+  "mfrac",
+  "mi",
+  "mmultiscripts",
+  "mn",
+  "mo",
+  "mover",
+  "mpadded",
+  "mphantom",
+  "mprescripts",
+  "mroot",
+  "mrow",
+  "ms",
+  "mspace",
+  "msqrt",
+  "mstyle",
+  "msub",
+  "msubsup",
+  "msup",
+  "mtable",
+  "mtd",
+  "mtext",
+  "mtr",
+  "munder",
+  "munderover",
+  "none",
+  "semantics",
+];
+
+/**
+ * Attributes allowed on MathML elements by the `mathml` profile
+ */
+const MATHML_ATTRIBUTES = [
+  "display",
+  "displaystyle",
+  "mathvariant",
+  "mathsize",
+  "mathcolor",
+  "mathbackground",
+  "dir",
+  "fence",
+  "separator",
+  "stretchy",
+  "symmetric",
+  "largeop",
+  "movablelimits",
+  "lspace",
+  "rspace",
+  "minsize",
+  "maxsize",
+  "accent",
+  "accentunder",
+  "linethickness",
+  "scriptlevel",
+  "width",
+  "height",
+  "depth",
+  "voffset",
+  "columnspan",
+  "rowspan",
+  "encoding",
+];
+
+/**
+ * MathML elements removed with their content by the `mathml` profile
+ * `annotation-xml` can hold HTML or SVG islands, `maction` toggles hidden content
+ */
+const MATHML_REMOVED_ELEMENTS = ["annotation-xml", "maction", "mglyph", "malignmark"];
+
+/**
+ * Element entries for a list of names in one namespace, sharing an attribute list
+ */
+function profileElements(
+  names: string[],
+  namespace: string,
+  attributes: SanitizerElementConfig["attributes"]
+): SanitizerElementConfig[] {
+  return names.map((name) => ({ name, namespace, attributes }));
+}
+
+/**
+ * Opt-in profiles for inline SVG and MathML
+ */
+export const SANITIZER_PROFILES: Record<SanitizerProfile, ProfileConfig> = {
+  svg: {
+    elements: profileElements(SVG_ELEMENTS, SVG_NAMESPACE, SVG_ATTRIBUTES),
+    removeElements: SVG_REMOVED_ELEMENTS.map((name) => ({ name, namespace: SVG_NAMESPACE })),
+  },
+  mathml: {
+    elements: profileElements(MATHML_ELEMENTS, MATHML_NAMESPACE, MATHML_ATTRIBUTES),
+    removeElements: MATHML_REMOVED_ELEMENTS.map((name) => ({
+      name,
+      namespace: MATHML_NAMESPACE,
+    })),
+  },
+};
+
+/**
+ * Every MathML element name; no HTML element may use one
+ */
+const MATHML_ELEMENT_NAMES = new Set([...MATHML_ELEMENTS, ...MATHML_REMOVED_ELEMENTS]);
+
+/**
+ * SVG element names that are not also HTML element names, lowercased
+ * An HTML element with one of these names can turn into an SVG element when reparsed
+ */
+const SVG_ONLY_ELEMENT_NAMES = new Set(
+  [...SVG_ELEMENTS, ...SVG_REMOVED_ELEMENTS]
+    .map((name) => name.toLowerCase())
+    .filter((name) => !["a", "title", "style", "script"].includes(name))
+);
+
+/**
+ * Check that an element's namespace fits its parent, i.e. that serializing the tree and
+ * parsing it again puts the element in the same namespace
+ * Sanitizing (unwrapping in particular) can build trees the parser never would; such
+ * trees are how mutation XSS (`<math><mtext><table><mglyph><style>...`) slips through
+ */
+export function hasValidNamespace(element: ElementNode): boolean {
+  // Fragments and template contents are parsed as HTML
+  const parent = element.parent?.type === "element" ? element.parent : null;
+  const parentNamespace = parent?.namespace ?? HTML_NAMESPACE;
+
+  switch (element.namespace) {
+    case SVG_NAMESPACE:
+      if (!parent || parentNamespace === HTML_NAMESPACE) {
+        return element.tagName === "svg";
+      }
+      if (parentNamespace === MATHML_NAMESPACE) {
+        return (
+          element.tagName === "svg" &&
+          (parent.tagName === "annotation-xml" || isMathMLTextIntegrationPoint(parent))
+        );
+      }
+      return true;
+
+    case MATHML_NAMESPACE:
+      if (!parent || parentNamespace === HTML_NAMESPACE) {
+        return element.tagName === "math";
+      }
+      if (parentNamespace === SVG_NAMESPACE) {
+        return element.tagName === "math" && isHTMLIntegrationPoint(parent);
+      }
+      return true;
+
+    case HTML_NAMESPACE:
+      if (
+        parent &&
+        parentNamespace !== HTML_NAMESPACE &&
+        !isHTMLIntegrationPoint(parent) &&
+        !isMathMLTextIntegrationPoint(parent)
+      ) {
+        return false;
+      }
+      return (
+        !MATHML_ELEMENT_NAMES.has(element.tagName) && !SVG_ONLY_ELEMENT_NAMES.has(element.tagName)
+      );
+
+    default:
+      return false;
+  }
+}
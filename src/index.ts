@@ -1,5 +1,21 @@
 // Main exports
 
+export { createDOMBackend, detectBackend, STRING_BACKEND, toDOMFragment } from "./backend";
+
+// Node types and helpers for sanitizer hooks
+export {
+  type Attribute,
+  type ElementNode,
+  type FragmentNode,
+  getAttribute,
+  removeAttribute,
+  type SerializeOptions,
+  type ShadowRootNode,
+  setAttribute,
+} from "./dom";
+export { install } from "./install";
+export { hasNativeSetHTML, toNativeSanitizerConfig } from "./native";
+
 export * from "./node";
 export {
   createSanitizationMiddleware,
@@ -11,11 +27,22 @@ export {
 } from "./node";
 export * from "./react";
 export {
+  createRenderSanitizer,
   createSafeHTMLElement,
   SafeHTML,
+  SanitizationReportProvider,
+  SanitizerProvider,
   useSafeHTML,
+  useSanitizer,
   withSafeHTML,
 } from "./react";
+export {
+  type ReactComponentMap,
+  type ReactNodeOptions,
+  sanitizedHTMLToReactNodes,
+  styleToObject,
+  toReactNodes,
+} from "./react-nodes";
 export * from "./sanitizer";
 // Re-export commonly used items for convenience
 export {
@@ -28,3 +55,4 @@ export {
   setHTML,
   setHTMLUnsafe,
 } from "./sanitizer";
+export { matches, querySelector, querySelectorAll } from "./selectors";
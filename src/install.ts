@@ -0,0 +1,61 @@
+import { hasNativeSetHTML, markPolyfill, type SetHTMLMethod } from "./native";
+import { type SetHTMLOptions, setHTML, setHTMLUnsafe } from "./sanitizer";
+
+/**
+ * Polyfill for each patched method
+ */
+const METHODS: Record<SetHTMLMethod, typeof setHTML> = { setHTML, setHTMLUnsafe };
+
+/**
+ * Add `setHTML()` and `setHTMLUnsafe()` to `Element.prototype` and `ShadowRoot.prototype`
+ * where the browser lacks them
+ * Prototypes with a native `setHTML()` are left alone; returns a function that removes
+ * the polyfills again
+ */
+export function install(): () => void {
+  const restore: (() => void)[] = [];
+  const scope = globalThis as {
+    Element?: { prototype: object };
+    ShadowRoot?: { prototype: object };
+  };
+
+  for (const type of [scope.Element, scope.ShadowRoot]) {
+    const prototype = type?.prototype;
+    if (!prototype || hasNativeSetHTML(prototype)) {
+      continue;
+    }
+
+    for (const name of Object.keys(METHODS) as SetHTMLMethod[]) {
+      // A setHTMLUnsafe() without setHTML() predates sanitizer support but still parses
+      if (name === "setHTMLUnsafe" && name in prototype) {
+        continue;
+      }
+      const previous = Object.getOwnPropertyDescriptor(prototype, name);
+      const polyfill = METHODS[name];
+      Object.defineProperty(prototype, name, {
+        configurable: true,
+        writable: true,
+        value: markPolyfill(function (
+          this: Element | ShadowRoot,
+          input: string,
+          options?: SetHTMLOptions
+        ) {
+          polyfill(this, input, options);
+        }),
+      });
+      restore.push(() => {
+        if (previous) {
+          Object.defineProperty(prototype, name, previous);
+        } else {
+          delete (prototype as Record<string, unknown>)[name];
+        }
+      });
+    }
+  }
+
+  return () => {
+    for (const undo of restore.reverse()) {
+      undo();
+    }
+  };
+}
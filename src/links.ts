@@ -0,0 +1,108 @@
+import {
+  type ElementNode,
+  getAttribute,
+  HTML_NAMESPACE,
+  removeAttribute,
+  setAttribute,
+} from "./dom";
+import { classifyUrl, PLACEHOLDER_BASE_URL } from "./urls";
+
+/**
+ * How links (`<a>` and `<area>` with an `href`) are rewritten after sanitizing
+ */
+export interface LinkPolicy {
+  /**
+   * `rel` tokens added to links that open a new browsing context (any `target` other
+   * than `_self`, `_parent` and `_top`), default `["noopener", "noreferrer"]`
+   */
+  rel?: string[];
+  /** Keep `target` as written, set `target="_blank"` on every link, or remove `target` */
+  target?: "keep" | "blank" | "strip";
+  /**
+   * Hostnames of internal links; other absolute links are external
+   * The host of `baseURL` is always internal, and so are relative links
+   */
+  internalHosts?: string[];
+  /** Class added to external links */
+  externalClass?: string;
+  /** `rel` tokens added to external links, e.g. `["nofollow", "ugc"]` */
+  externalRel?: string[];
+}
+
+/**
+ * `rel` tokens added to links opening a new browsing context when the policy names none
+ */
+const DEFAULT_NEW_CONTEXT_REL = ["noopener", "noreferrer"];
+
+/**
+ * Targets that stay in the current window (or one of its ancestors)
+ * Browsers match these exactly (ignoring ASCII case): `" _self"` names a new window
+ */
+const SAME_CONTEXT_TARGETS = ["", "_self", "_parent", "_top"];
+
+/**
+ * Add tokens to a space-separated attribute, keeping the existing ones
+ */
+function addTokens(element: ElementNode, name: string, tokens: string[]): void {
+  const current = (getAttribute(element, name) ?? "").split(/[\t\n\f\r ]+/).filter(Boolean);
+  const missing = tokens.filter(
+    (token) => !current.some((entry) => entry.toLowerCase() === token.toLowerCase())
+  );
+  if (missing.length > 0) {
+    setAttribute(element, name, [...current, ...missing].join(" "));
+  }
+}
+
+/**
+ * Check whether a link points to a host other than the internal ones
+ */
+function isExternalLink(href: string, policy: LinkPolicy, baseURL?: string): boolean {
+  const kind = classifyUrl(href.trim());
+  if (kind !== "absolute" && kind !== "protocol-relative") {
+    return false;
+  }
+
+  const url = new URL(href.trim(), baseURL ?? PLACEHOLDER_BASE_URL);
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return false;
+  }
+
+  const internalHosts = (policy.internalHosts ?? []).map((host) => host.toLowerCase());
+  if (baseURL) {
+    internalHosts.push(new URL(baseURL).hostname);
+  }
+  return !internalHosts.includes(url.hostname);
+}
+
+/**
+ * Apply a link policy to an element that has been sanitized
+ */
+export function applyLinkPolicy(element: ElementNode, policy: LinkPolicy, baseURL?: string): void {
+  if (element.namespace !== HTML_NAMESPACE || !["a", "area"].includes(element.tagName)) {
+    return;
+  }
+  const href = getAttribute(element, "href");
+  if (href === null) {
+    return;
+  }
+
+  if (policy.target === "strip") {
+    removeAttribute(element, "target");
+  } else if (policy.target === "blank") {
+    setAttribute(element, "target", "_blank");
+  }
+
+  const target = (getAttribute(element, "target") ?? "").toLowerCase();
+  if (!SAME_CONTEXT_TARGETS.includes(target)) {
+    addTokens(element, "rel", policy.rel ?? DEFAULT_NEW_CONTEXT_REL);
+  }
+
+  if ((policy.externalClass || policy.externalRel) && isExternalLink(href, policy, baseURL)) {
+    if (policy.externalClass) {
+      addTokens(element, "class", [policy.externalClass]);
+    }
+    if (policy.externalRel) {
+      addTokens(element, "rel", policy.externalRel);
+    }
+  }
+}
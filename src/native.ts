@@ -0,0 +1,111 @@
+/**
+ * Native Sanitizer API support: detecting `Element.prototype.setHTML()` and translating
+ * a SanitizerConfig into the native configuration dictionary
+ */
+
+import { SANITIZER_PROFILES } from "./foreign";
+import type {
+  SanitizerAttribute,
+  SanitizerConfig,
+  SanitizerElement,
+  SanitizerElementWithAttributes,
+} from "./sanitizer";
+
+/**
+ * Native SanitizerConfig dictionary
+ * Lists are either allowlists or removal lists, never both
+ */
+export interface NativeSanitizerConfig {
+  elements?: SanitizerElementWithAttributes[];
+  removeElements?: SanitizerElement[];
+  replaceWithChildrenElements?: SanitizerElement[];
+  attributes?: SanitizerAttribute[];
+  removeAttributes?: SanitizerAttribute[];
+  comments?: boolean;
+  dataAttributes?: boolean;
+}
+
+/**
+ * Methods of Element and ShadowRoot the polyfill provides
+ */
+export type SetHTMLMethod = "setHTML" | "setHTMLUnsafe";
+
+/**
+ * Functions installed by the polyfill, so they are never mistaken for the native API
+ */
+const POLYFILLS = new WeakSet<object>();
+
+/**
+ * Mark a function as a polyfill
+ */
+export function markPolyfill<T extends object>(fn: T): T {
+  POLYFILLS.add(fn);
+  return fn;
+}
+
+/**
+ * Whether the browser implements the Sanitizer API's `setHTML()`
+ * `setHTMLUnsafe()` alone does not count: browsers shipped it before it took a sanitizer
+ */
+export function hasNativeSetHTML(target: object): boolean {
+  const method = (target as { setHTML?: unknown }).setHTML;
+  return typeof method === "function" && !POLYFILLS.has(method);
+}
+
+/**
+ * Native `setHTML()`/`setHTMLUnsafe()` of a node, or null when only the polyfill is there
+ */
+export function getNativeMethod(
+  target: object,
+  name: SetHTMLMethod
+): ((input: string, options?: object) => void) | null {
+  const method = (target as Record<SetHTMLMethod, unknown>)[name];
+  if (!hasNativeSetHTML(target) || typeof method !== "function" || POLYFILLS.has(method)) {
+    return null;
+  }
+  return method as (input: string, options?: object) => void;
+}
+
+/**
+ * Translate a configuration into the native dictionary
+ * Only element, attribute, comment and data attribute settings have a native equivalent.
+ * Everything else is left out: URL, data URL, CSS and link policies, `urlAttributes`,
+ * `baseURL`, the namespace checks of profiles and `verifyRoundTrip`. Natively, elements
+ * missing from `elements` are removed with their content rather than unwrapped.
+ * Sanitizers only pass this to the browser when their configuration sets `useNativeAPI`.
+ */
+export function toNativeSanitizerConfig(config: SanitizerConfig): NativeSanitizerConfig {
+  const native: NativeSanitizerConfig = { comments: !!config.comments };
+  const elements = config.elements ?? config.allowedElements;
+  const removeElements = config.removeElements ?? config.disallowedElements;
+  const attributes = config.attributes ?? config.allowedAttributes;
+  const removeAttributes = config.removeAttributes ?? config.disallowedAttributes;
+
+  if (elements) {
+    const profiles = (config.profiles ?? []).map((name) => SANITIZER_PROFILES[name]);
+    native.elements = [...profiles.flatMap((profile) => profile.elements), ...elements];
+  } else if (removeElements) {
+    native.removeElements = removeElements;
+  }
+  if (config.replaceWithChildrenElements) {
+    native.replaceWithChildrenElements = config.replaceWithChildrenElements;
+  }
+
+  if (attributes) {
+    native.attributes = attributes;
+    native.dataAttributes = !!config.dataAttributes;
+  } else if (removeAttributes) {
+    native.removeAttributes = removeAttributes;
+  }
+
+  return native;
+}
+
+/**
+ * Native Sanitizer built from a translated configuration, or the dictionary itself when
+ * the browser has no Sanitizer constructor (setHTML() accepts both)
+ */
+export function createNativeSanitizer(config: NativeSanitizerConfig): object {
+  const NativeSanitizer = (globalThis as { Sanitizer?: new (config: object) => object }).Sanitizer;
+  return NativeSanitizer ? new NativeSanitizer(config) : config;
+}
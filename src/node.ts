@@ -1,5 +1,24 @@
 import type { NextFunction, Request, Response } from "express";
-import { Sanitizer, type SanitizerConfig, type SetHTMLOptions } from "./sanitizer";
+import {
+  attachDeclarativeShadowRoots,
+  createFragment,
+  type ElementNode,
+  type FragmentNode,
+  HTML_NAMESPACE,
+  moveChildren,
+  type ParentNode,
+  type SerializeOptions,
+  serializeChildren,
+} from "./dom";
+import { isHTMLIntegrationPoint, isMathMLTextIntegrationPoint } from "./parser";
+import {
+  type SanitizeAction,
+  type SanitizeReport,
+  Sanitizer,
+  type SanitizerConfig,
+  type SetHTMLOptions,
+} from "./sanitizer";
+import { querySelector, querySelectorAll } from "./selectors";
 
 /**
  * Node.js specific HTML processing utilities
@@ -18,67 +37,43 @@ export class NodeHTMLProcessor {
     return this.sanitizer.sanitize(html);
   }
 
+  /**
+   * Process HTML string, recording what sanitizing removed or changed
+   */
+  sanitizeWithReport(html: string): SanitizeReport {
+    return this.sanitizer.sanitizeWithReport(html);
+  }
+
   /**
    * Process HTML and return metadata about the sanitization
+   * `removedElements` lists the tags of removed or unwrapped elements, `actions` has the details
    */
   processHTMLWithMetadata(html: string): {
     sanitizedHTML: string;
     wasModified: boolean;
     removedElements: string[];
     removedAttributes: string[];
+    actions: SanitizeAction[];
   } {
-    const originalHTML = html;
-    const sanitizedHTML = this.sanitizer.sanitize(html);
-    const wasModified = sanitizedHTML !== originalHTML;
+    const report = this.sanitizer.sanitizeWithReport(html);
+    const { actions } = report;
 
-    // Extract information about what was removed
-    const removedElements = this.extractRemovedElements(originalHTML, sanitizedHTML);
-    const removedAttributes = this.extractRemovedAttributes(originalHTML, sanitizedHTML);
+    const removedElements = actions
+      .filter((action) => action.type === "remove-element" || action.type === "unwrap-element")
+      .map((action) => action.tag as string);
+    const removedAttributes = actions
+      .filter((action) => action.type === "remove-attribute")
+      .map((action) => action.attribute as string);
 
     return {
-      sanitizedHTML,
-      wasModified,
-      removedElements,
-      removedAttributes,
+      sanitizedHTML: report.html,
+      wasModified: actions.length > 0 || report.roundTrip !== undefined,
+      removedElements: [...new Set(removedElements)],
+      removedAttributes: [...new Set(removedAttributes)],
+      actions,
     };
   }
 
-  /**
-   * Extract elements that were removed during sanitization
-   */
-  private extractRemovedElements(original: string, sanitized: string): string[] {
-    const removed: string[] = [];
-
-    if ((this.sanitizer as any).config.disallowedElements) {
-      (this.sanitizer as any).config.disallowedElements.forEach((tag: string) => {
-        const regex = new RegExp(`<\\/?${tag}[^>]*>`, "gi");
-        if (regex.test(original) && !regex.test(sanitized)) {
-          removed.push(tag);
-        }
-      });
-    }
-
-    return removed;
-  }
-
-  /**
-   * Extract attributes that were removed during sanitization
-   */
-  private extractRemovedAttributes(original: string, sanitized: string): string[] {
-    const removed: string[] = [];
-
-    if ((this.sanitizer as any).config.disallowedAttributes) {
-      (this.sanitizer as any).config.disallowedAttributes.forEach((attr: string) => {
-        const regex = new RegExp(`\\s+${attr}\\s*=\\s*["'][^"']*["']`, "gi");
-        if (regex.test(original) && !regex.test(sanitized)) {
-          removed.push(attr);
-        }
-      });
-    }
-
-    return removed;
-  }
-
   /**
    * Validate HTML structure
    */
@@ -164,6 +159,7 @@ export class NodeHTMLProcessor {
 
 /**
  * Express.js middleware for HTML sanitization
+ * The report of the last sanitized response body is kept in `res.locals.sanitizationReport`
  */
 export function createSanitizationMiddleware(sanitizerConfig?: SanitizerConfig) {
   const processor = new NodeHTMLProcessor(sanitizerConfig);
@@ -173,7 +169,9 @@ export function createSanitizationMiddleware(sanitizerConfig?: SanitizerConfig)
 
     res.send = function (data: any) {
       if (typeof data === "string" && req.headers["content-type"]?.includes("text/html")) {
-        data = processor.processHTML(data);
+        const report = processor.sanitizeWithReport(data);
+        res.locals.sanitizationReport = report;
+        data = report.html;
       }
       return originalSend.call(this, data);
     };
@@ -201,6 +199,7 @@ export function processServerHTMLWithMetadata(
   wasModified: boolean;
   removedElements: string[];
   removedAttributes: string[];
+  actions: SanitizeAction[];
 } {
   const processor = new NodeHTMLProcessor(sanitizerConfig);
   return processor.processHTMLWithMetadata(html);
@@ -221,16 +220,95 @@ export function validateHTML(
   return processor.validateHTMLStructure(html);
 }
 
+/**
+ * HTML elements whose content is parsed as raw text or RCDATA rather than as markup
+ */
+const TEXT_CONTENT_ELEMENTS = new Set([
+  "script",
+  "style",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+  "noscript",
+  "plaintext",
+  "textarea",
+  "title",
+]);
+
+/**
+ * HTML elements whose content the parser moves or closes early, so arbitrary children
+ * would be restructured when parsed again (e.g. text fostered out of `<table>`, a `<div>`
+ * closing `<p>`, or a nested `<a>` closing its parent)
+ */
+const RESTRUCTURED_CONTENT_ELEMENTS = new Set([
+  "table",
+  "caption",
+  "colgroup",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+  "select",
+  "optgroup",
+  "option",
+  "p",
+  "a",
+  "li",
+  "dd",
+  "dt",
+  "button",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "nobr",
+  "rb",
+  "rp",
+  "rt",
+  "rtc",
+]);
+
+/**
+ * Whether parsed HTML can be placed in an element and survive serializing: HTML elements
+ * whose content is parsed as markup without being restructured, and the SVG and MathML
+ * elements HTML content may appear in
+ */
+function canHoldHTML(element: ElementNode): boolean {
+  if (element.namespace === HTML_NAMESPACE) {
+    return (
+      !TEXT_CONTENT_ELEMENTS.has(element.tagName) &&
+      !RESTRUCTURED_CONTENT_ELEMENTS.has(element.tagName)
+    );
+  }
+  return isHTMLIntegrationPoint(element) || isMathMLTextIntegrationPoint(element);
+}
+
+/**
+ * Options for ShadowRootProcessor.append() and replaceChildren()
+ */
+export interface FragmentUpdateOptions extends SetHTMLOptions {
+  /** Element of this shadow root (e.g. from querySelector()) to update instead of the root */
+  target?: ElementNode;
+}
+
 /**
  * ShadowRoot-like interface for server-side HTML processing
  * Provides setHTML() and setHTMLUnsafe() methods compatible with native ShadowRoot API
+ * Content is kept as a parsed, sanitized node tree that can be queried and updated
  */
 export class ShadowRootProcessor {
-  private content: string = "";
+  private content: FragmentNode = createFragment();
   private sanitizer: Sanitizer;
 
-  constructor(sanitizerConfig?: SanitizerConfig) {
-    this.sanitizer = new Sanitizer(sanitizerConfig);
+  /**
+   * Pass a Sanitizer instance to use its hooks
+   */
+  constructor(sanitizer?: SanitizerConfig | Sanitizer) {
+    this.sanitizer = sanitizer instanceof Sanitizer ? sanitizer : new Sanitizer(sanitizer);
   }
 
   /**
@@ -240,29 +318,68 @@ export class ShadowRootProcessor {
     if (typeof input !== "string") {
       return;
     }
+    this.content = this.parse(input, options, true);
+  }
 
-    let sanitizer: Sanitizer;
-
-    if (options?.sanitizer === "default" || !options?.sanitizer) {
-      sanitizer = this.sanitizer;
-    } else if (options.sanitizer instanceof Sanitizer) {
-      sanitizer = options.sanitizer;
-    } else {
-      sanitizer = new Sanitizer(options.sanitizer);
+  /**
+   * Set HTML content unsafely (ShadowRoot.setHTMLUnsafe() compatible)
+   */
+  setHTMLUnsafe(input: string, options?: SetHTMLOptions): void {
+    if (typeof input !== "string") {
+      return;
     }
+    this.content = this.parse(input, options, false);
+  }
 
-    // Always apply removeUnsafe() as per MDN spec
-    this.content = sanitizer.removeUnsafe(input);
+  /**
+   * Sanitize HTML the way setHTML() does and add it after the existing children of the
+   * shadow root, or of `options.target`
+   */
+  append(input: string, options?: FragmentUpdateOptions): void {
+    if (typeof input !== "string") {
+      return;
+    }
+    const parent = this.resolveTarget(options?.target);
+    moveChildren(this.parse(input, options, true), parent);
   }
 
   /**
-   * Set HTML content unsafely (ShadowRoot.setHTMLUnsafe() compatible)
+   * Sanitize HTML the way setHTML() does and replace the children of the shadow root, or
+   * of `options.target`, with it
    */
-  setHTMLUnsafe(input: string, options?: SetHTMLOptions): void {
+  replaceChildren(input: string, options?: FragmentUpdateOptions): void {
     if (typeof input !== "string") {
       return;
     }
+    const parent = this.resolveTarget(options?.target);
+    for (const node of parent.children) {
+      node.parent = null;
+    }
+    parent.children = [];
+    moveChildren(this.parse(input, options, true), parent);
+  }
+
+  /**
+   * First element matching a selector list, or null
+   * Throws a SyntaxError for selectors that are invalid or not supported
+   */
+  querySelector(selectors: string): ElementNode | null {
+    return querySelector(this.content, selectors);
+  }
 
+  /**
+   * All elements matching a selector list, in tree order
+   */
+  querySelectorAll(selectors: string): ElementNode[] {
+    return querySelectorAll(this.content, selectors);
+  }
+
+  /**
+   * Sanitize HTML into a node tree with the sanitizer picked by the options, attaching
+   * declarative shadow roots like the browser would
+   * Template contents were sanitized on their own, so nested shadow roots are too
+   */
+  private parse(input: string, options: SetHTMLOptions | undefined, safe: boolean): FragmentNode {
     let sanitizer: Sanitizer;
 
     if (options?.sanitizer === "default" || !options?.sanitizer) {
@@ -273,21 +390,51 @@ export class ShadowRootProcessor {
       sanitizer = new Sanitizer(options.sanitizer);
     }
 
-    // Apply only basic sanitization, allowing more content
-    this.content = sanitizer.sanitize(input);
+    // Always apply removeUnsafe() for safe methods as per MDN spec; unsafe ones apply only
+    // basic sanitization, allowing more content
+    const fragment = safe ? sanitizer.removeUnsafeToTree(input) : sanitizer.sanitizeToTree(input);
+    attachDeclarativeShadowRoots(fragment);
+    return fragment;
+  }
+
+  /**
+   * Parent node to update: the shadow root, or a target element inside it
+   * Targets that cannot hold parsed HTML are rejected, as their new children would not
+   * survive serializing: text in `<noscript>` or `<xmp>` is written unescaped, HTML
+   * elements break out of SVG and MathML, and content of `<table>`, `<select>`, `<p>` or
+   * `<a>` is moved or closed early by the parser
+   */
+  private resolveTarget(target: ElementNode | undefined): ParentNode {
+    if (!target) {
+      return this.content;
+    }
+
+    let node: ParentNode | null = target;
+    while (node && node !== this.content) {
+      node = node.parent;
+    }
+    if (!node) {
+      throw new Error("The target element is not part of this shadow root");
+    }
+    if (!canHoldHTML(target)) {
+      throw new Error(`The target element <${target.tagName}> cannot hold HTML content`);
+    }
+    return target.content ?? target;
   }
 
   /**
-   * Get current HTML content
+   * Get current HTML content (ShadowRoot.getHTML() compatible)
+   * Nested shadow roots are serialized when listed in `shadowRoots`, or when
+   * `serializableShadowRoots` is set and they were declared with `shadowrootserializable`
    */
-  getHTML(): string {
-    return this.content;
+  getHTML(options?: SerializeOptions): string {
+    return serializeChildren(this.content, options);
   }
 
   /**
    * Clear content
    */
   clear(): void {
-    this.content = "";
+    this.content = createFragment();
   }
 }
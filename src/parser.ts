@@ -0,0 +1,2274 @@
+import {
+  type Attribute,
+  appendChild,
+  type ChildNode,
+  createComment,
+  createElement,
+  createFragment,
+  createText,
+  type ElementNode,
+  type FragmentNode,
+  HTML_NAMESPACE,
+  insertBefore,
+  MATHML_NAMESPACE,
+  moveChildren,
+  type ParentNode,
+  SVG_NAMESPACE,
+  XLINK_NAMESPACE,
+  XML_NAMESPACE,
+  XMLNS_NAMESPACE,
+} from "./dom";
+import { type ContentState, type StartTagToken, type Token, Tokenizer } from "./tokenizer";
+
+/**
+ * Options for fragment parsing
+ */
+export interface ParseOptions {
+  /** Local name of the context element the fragment is parsed for (default: 'body') */
+  context?: string;
+  /** Namespace of the context element (default: HTML) */
+  contextNamespace?: string;
+  /** Parse `<noscript>` as raw text, as browsers with scripting enabled do (default: true) */
+  scripting?: boolean;
+}
+
+enum Mode {
+  InBody,
+  Text,
+  InTable,
+  InTableText,
+  InCaption,
+  InColumnGroup,
+  InTableBody,
+  InRow,
+  InCell,
+  InSelect,
+  InSelectInTable,
+  InTemplate,
+}
+
+type ScopeKind = "default" | "listItem" | "button" | "table" | "select";
+
+/** Marker entry in the list of active formatting elements */
+const MARKER = null;
+type FormattingEntry = ElementNode | typeof MARKER;
+
+/**
+ * Deepest nesting of elements in a parsed tree, as in Chromium
+ * Elements opened deeper are inserted as siblings of the deepest element instead
+ */
+export const MAX_TREE_DEPTH = 512;
+
+const WHITESPACE = /^[\t\n\f\r ]*$/;
+const LEADING_WHITESPACE = /^[\t\n\f\r ]+/;
+
+const SPECIAL_HTML = new Set([
+  "address",
+  "applet",
+  "area",
+  "article",
+  "aside",
+  "base",
+  "basefont",
+  "bgsound",
+  "blockquote",
+  "body",
+  "br",
+  "button",
+  "caption",
+  "center",
+  "col",
+  "colgroup",
+  "dd",
+  "details",
+  "dir",
+  "div",
+  "dl",
+  "dt",
+  "embed",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "frame",
+  "frameset",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "head",
+  "header",
+  "hgroup",
+  "hr",
+  "html",
+  "iframe",
+  "img",
+  "input",
+  "keygen",
+  "li",
+  "link",
+  "listing",
+  "main",
+  "marquee",
+  "menu",
+  "meta",
+  "nav",
+  "noembed",
+  "noframes",
+  "noscript",
+  "object",
+  "ol",
+  "p",
+  "param",
+  "plaintext",
+  "pre",
+  "script",
+  "search",
+  "section",
+  "select",
+  "source",
+  "style",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "template",
+  "textarea",
+  "tfoot",
+  "th",
+  "thead",
+  "title",
+  "tr",
+  "track",
+  "ul",
+  "wbr",
+  "xmp",
+]);
+
+const MATHML_TEXT_INTEGRATION_POINTS = new Set(["mi", "mo", "mn", "ms", "mtext"]);
+const SVG_HTML_INTEGRATION_POINTS = new Set(["foreignObject", "desc", "title"]);
+const DEFAULT_SCOPE_HTML = new Set([
+  "applet",
+  "caption",
+  "html",
+  "table",
+  "td",
+  "th",
+  "marquee",
+  "object",
+  "template",
+]);
+const IMPLIED_END_TAGS = new Set([
+  "dd",
+  "dt",
+  "li",
+  "optgroup",
+  "option",
+  "p",
+  "rb",
+  "rp",
+  "rt",
+  "rtc",
+]);
+const IMPLIED_END_TAGS_THOROUGH = new Set([
+  ...IMPLIED_END_TAGS,
+  "caption",
+  "colgroup",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+]);
+const HEADINGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+const FORMATTING_ELEMENTS = new Set([
+  "a",
+  "b",
+  "big",
+  "code",
+  "em",
+  "font",
+  "i",
+  "nobr",
+  "s",
+  "small",
+  "strike",
+  "strong",
+  "tt",
+  "u",
+]);
+const BLOCK_START_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "center",
+  "details",
+  "dialog",
+  "dir",
+  "div",
+  "dl",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "header",
+  "hgroup",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "search",
+  "section",
+  "summary",
+  "ul",
+]);
+const BLOCK_END_TAGS = new Set([...BLOCK_START_TAGS, "button", "listing", "pre"]);
+BLOCK_END_TAGS.delete("p");
+const HEAD_START_TAGS = new Set([
+  "base",
+  "basefont",
+  "bgsound",
+  "link",
+  "meta",
+  "noframes",
+  "script",
+  "style",
+  "template",
+  "title",
+]);
+const TABLE_SECTIONS = new Set(["tbody", "tfoot", "thead"]);
+const FOSTER_TARGETS = new Set(["table", "tbody", "tfoot", "thead", "tr"]);
+const TABLE_STRUCTURE_TAGS = new Set([
+  "caption",
+  "col",
+  "colgroup",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+]);
+const FOREIGN_BREAKOUT_TAGS = new Set([
+  "b",
+  "big",
+  "blockquote",
+  "body",
+  "br",
+  "center",
+  "code",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "em",
+  "embed",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "head",
+  "hr",
+  "i",
+  "img",
+  "li",
+  "listing",
+  "menu",
+  "meta",
+  "nobr",
+  "ol",
+  "p",
+  "pre",
+  "ruby",
+  "s",
+  "small",
+  "span",
+  "strong",
+  "strike",
+  "sub",
+  "sup",
+  "table",
+  "tt",
+  "u",
+  "ul",
+  "var",
+]);
+
+const SVG_TAG_ADJUSTMENTS: Record<string, string> = {
+  altglyph: "altGlyph",
+  altglyphdef: "altGlyphDef",
+  altglyphitem: "altGlyphItem",
+  animatecolor: "animateColor",
+  animatemotion: "animateMotion",
+  animatetransform: "animateTransform",
+  clippath: "clipPath",
+  feblend: "feBlend",
+  fecolormatrix: "feColorMatrix",
+  fecomponenttransfer: "feComponentTransfer",
+  fecomposite: "feComposite",
+  feconvolvematrix: "feConvolveMatrix",
+  fediffuselighting: "feDiffuseLighting",
+  fedisplacementmap: "feDisplacementMap",
+  fedistantlight: "feDistantLight",
+  fedropshadow: "feDropShadow",
+  feflood: "feFlood",
+  fefunca: "feFuncA",
+  fefuncb: "feFuncB",
+  fefuncg: "feFuncG",
+  fefuncr: "feFuncR",
+  fegaussianblur: "feGaussianBlur",
+  feimage: "feImage",
+  femerge: "feMerge",
+  femergenode: "feMergeNode",
+  femorphology: "feMorphology",
+  feoffset: "feOffset",
+  fepointlight: "fePointLight",
+  fespecularlighting: "feSpecularLighting",
+  fespotlight: "feSpotLight",
+  fetile: "feTile",
+  feturbulence: "feTurbulence",
+  foreignobject: "foreignObject",
+  glyphref: "glyphRef",
+  lineargradient: "linearGradient",
+  radialgradient: "radialGradient",
+  textpath: "textPath",
+};
+
+const SVG_ATTRIBUTE_ADJUSTMENTS: Record<string, string> = {
+  attributename: "attributeName",
+  attributetype: "attributeType",
+  basefrequency: "baseFrequency",
+  baseprofile: "baseProfile",
+  calcmode: "calcMode",
+  clippathunits: "clipPathUnits",
+  diffuseconstant: "diffuseConstant",
+  edgemode: "edgeMode",
+  filterunits: "filterUnits",
+  glyphref: "glyphRef",
+  gradienttransform: "gradientTransform",
+  gradientunits: "gradientUnits",
+  kernelmatrix: "kernelMatrix",
+  kernelunitlength: "kernelUnitLength",
+  keypoints: "keyPoints",
+  keysplines: "keySplines",
+  keytimes: "keyTimes",
+  lengthadjust: "lengthAdjust",
+  limitingconeangle: "limitingConeAngle",
+  markerheight: "markerHeight",
+  markerunits: "markerUnits",
+  markerwidth: "markerWidth",
+  maskcontentunits: "maskContentUnits",
+  maskunits: "maskUnits",
+  numoctaves: "numOctaves",
+  pathlength: "pathLength",
+  patterncontentunits: "patternContentUnits",
+  patterntransform: "patternTransform",
+  patternunits: "patternUnits",
+  pointsatx: "pointsAtX",
+  pointsaty: "pointsAtY",
+  pointsatz: "pointsAtZ",
+  preservealpha: "preserveAlpha",
+  preserveaspectratio: "preserveAspectRatio",
+  primitiveunits: "primitiveUnits",
+  refx: "refX",
+  refy: "refY",
+  repeatcount: "repeatCount",
+  repeatdur: "repeatDur",
+  requiredextensions: "requiredExtensions",
+  requiredfeatures: "requiredFeatures",
+  specularconstant: "specularConstant",
+  specularexponent: "specularExponent",
+  spreadmethod: "spreadMethod",
+  startoffset: "startOffset",
+  stddeviation: "stdDeviation",
+  stitchtiles: "stitchTiles",
+  surfacescale: "surfaceScale",
+  systemlanguage: "systemLanguage",
+  tablevalues: "tableValues",
+  targetx: "targetX",
+  targety: "targetY",
+  textlength: "textLength",
+  viewbox: "viewBox",
+  viewtarget: "viewTarget",
+  xchannelselector: "xChannelSelector",
+  ychannelselector: "yChannelSelector",
+  zoomandpan: "zoomAndPan",
+};
+
+const FOREIGN_ATTRIBUTE_NAMESPACES: Record<string, string> = {
+  "xlink:actuate": XLINK_NAMESPACE,
+  "xlink:arcrole": XLINK_NAMESPACE,
+  "xlink:href": XLINK_NAMESPACE,
+  "xlink:role": XLINK_NAMESPACE,
+  "xlink:show": XLINK_NAMESPACE,
+  "xlink:title": XLINK_NAMESPACE,
+  "xlink:type": XLINK_NAMESPACE,
+  "xml:lang": XML_NAMESPACE,
+  "xml:space": XML_NAMESPACE,
+  xmlns: XMLNS_NAMESPACE,
+  "xmlns:xlink": XMLNS_NAMESPACE,
+};
+
+function isHTML(node: ElementNode, ...names: string[]): boolean {
+  return node.namespace === HTML_NAMESPACE && (names.length === 0 || names.includes(node.tagName));
+}
+
+function isSpecial(node: ElementNode): boolean {
+  switch (node.namespace) {
+    case HTML_NAMESPACE:
+      return SPECIAL_HTML.has(node.tagName);
+    case MATHML_NAMESPACE:
+      return MATHML_TEXT_INTEGRATION_POINTS.has(node.tagName) || node.tagName === "annotation-xml";
+    case SVG_NAMESPACE:
+      return SVG_HTML_INTEGRATION_POINTS.has(node.tagName);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether HTML content can appear in this MathML element (mi, mo, mn, ms, mtext)
+ */
+export function isMathMLTextIntegrationPoint(node: ElementNode): boolean {
+  return node.namespace === MATHML_NAMESPACE && MATHML_TEXT_INTEGRATION_POINTS.has(node.tagName);
+}
+
+/**
+ * Whether HTML content can appear in this foreign element (SVG foreignObject, desc, title
+ * and MathML annotation-xml with an HTML encoding)
+ */
+export function isHTMLIntegrationPoint(node: ElementNode): boolean {
+  if (node.namespace === SVG_NAMESPACE) {
+    return SVG_HTML_INTEGRATION_POINTS.has(node.tagName);
+  }
+  if (node.namespace === MATHML_NAMESPACE && node.tagName === "annotation-xml") {
+    const encoding = node.attributes.find((attr) => attr.name === "encoding");
+    const value = encoding?.value.toLowerCase();
+    return value === "text/html" || value === "application/xhtml+xml";
+  }
+  return false;
+}
+
+function isScopeBoundary(node: ElementNode, kind: ScopeKind): boolean {
+  switch (kind) {
+    case "table":
+      return isHTML(node, "html", "table", "template");
+    case "select":
+      return !isHTML(node, "optgroup", "option");
+    case "listItem":
+      if (isHTML(node, "ol", "ul")) {
+        return true;
+      }
+      break;
+    case "button":
+      if (isHTML(node, "button")) {
+        return true;
+      }
+      break;
+  }
+  if (node.namespace === HTML_NAMESPACE) {
+    return DEFAULT_SCOPE_HTML.has(node.tagName);
+  }
+  if (node.namespace === MATHML_NAMESPACE) {
+    return MATHML_TEXT_INTEGRATION_POINTS.has(node.tagName) || node.tagName === "annotation-xml";
+  }
+  return node.namespace === SVG_NAMESPACE && SVG_HTML_INTEGRATION_POINTS.has(node.tagName);
+}
+
+function adjustForeignAttributes(attributes: Attribute[], namespace: string): Attribute[] {
+  return attributes.map((attr) => {
+    let name = attr.name;
+    if (namespace === SVG_NAMESPACE) {
+      name = SVG_ATTRIBUTE_ADJUSTMENTS[name] ?? name;
+    } else if (namespace === MATHML_NAMESPACE && name === "definitionurl") {
+      name = "definitionURL";
+    }
+    const attributeNamespace = FOREIGN_ATTRIBUTE_NAMESPACES[name];
+    return attributeNamespace
+      ? { ...attr, name, namespace: attributeNamespace }
+      : { ...attr, name };
+  });
+}
+
+function cloneElement(element: ElementNode): ElementNode {
+  const clone = createElement(
+    element.tagName,
+    element.namespace,
+    element.attributes.map((attr) => ({ ...attr }))
+  );
+  clone.sourceOffset = element.sourceOffset;
+  return clone;
+}
+
+function sameElementSignature(a: ElementNode, b: ElementNode): boolean {
+  if (a.tagName !== b.tagName || a.namespace !== b.namespace) {
+    return false;
+  }
+  if (a.attributes.length !== b.attributes.length) {
+    return false;
+  }
+  return a.attributes.every((attr) =>
+    b.attributes.some((other) => other.name === attr.name && other.value === attr.value)
+  );
+}
+
+/**
+ * HTML tree builder implementing the WHATWG fragment parsing algorithm
+ * Only the insertion modes reachable from a fragment context are implemented;
+ * document-level modes (before head, in head, after body, frameset) are not
+ */
+class TreeBuilder {
+  private readonly tokenizer: Tokenizer;
+  private readonly root: ElementNode;
+  private readonly context: ElementNode;
+  private readonly scripting: boolean;
+  private stack: ElementNode[] = [];
+  /** Number of open HTML elements by tag name, to answer most scope checks without a walk */
+  private openCounts = new Map<string, number>();
+  private formatting: FormattingEntry[] = [];
+  private templateModes: Mode[] = [];
+  private mode: Mode = Mode.InBody;
+  private originalMode: Mode = Mode.InBody;
+  private pendingTableText: { data: string; offset: number }[] = [];
+  private formElement: ElementNode | null = null;
+  private fosterParenting = false;
+  private skipNewline = false;
+  private reprocessEOF = false;
+
+  constructor(html: string, options: ParseOptions) {
+    this.scripting = options.scripting ?? true;
+    this.tokenizer = new Tokenizer(html, {
+      allowCDATA: () => {
+        return this.adjustedCurrentNode().namespace !== HTML_NAMESPACE;
+      },
+    });
+    this.root = createElement("html");
+    this.context = createElement(
+      options.context?.toLowerCase() ?? "body",
+      options.contextNamespace ?? HTML_NAMESPACE
+    );
+    this.pushElement(this.root);
+
+    if (isHTML(this.context)) {
+      const state = this.contentStateFor(this.context.tagName);
+      if (state) {
+        this.tokenizer.setContentState(state, this.context.tagName);
+      }
+      if (this.context.tagName === "template") {
+        this.templateModes.push(Mode.InTemplate);
+      }
+    }
+    this.resetInsertionMode();
+  }
+
+  /**
+   * Parse the input and return the resulting fragment
+   */
+  parse(): FragmentNode {
+    for (;;) {
+      const token = this.tokenizer.next();
+      this.dispatch(token);
+      if (token.type === "eof") {
+        while (this.reprocessEOF) {
+          this.reprocessEOF = false;
+          this.process(token);
+        }
+        break;
+      }
+    }
+    const fragment = createFragment();
+    fragment.scripting = this.scripting;
+    moveChildren(this.root, fragment);
+    return fragment;
+  }
+
+  private contentStateFor(tagName: string): ContentState | null {
+    switch (tagName) {
+      case "title":
+      case "textarea":
+        return "rcdata";
+      case "style":
+      case "xmp":
+      case "iframe":
+      case "noembed":
+      case "noframes":
+        return "rawtext";
+      case "noscript":
+        return this.scripting ? "rawtext" : null;
+      case "script":
+        return "scriptData";
+      case "plaintext":
+        return "plaintext";
+      default:
+        return null;
+    }
+  }
+
+  // Stack of open elements
+
+  private pushElement(element: ElementNode): void {
+    this.stack.push(element);
+    this.countOpen(element, 1);
+  }
+
+  private popElement(): ElementNode | undefined {
+    const element = this.stack.pop();
+    if (element) {
+      this.countOpen(element, -1);
+    }
+    return element;
+  }
+
+  private removeFromStack(index: number): void {
+    const [element] = this.stack.splice(index, 1);
+    if (element) {
+      this.countOpen(element, -1);
+    }
+  }
+
+  private countOpen(element: ElementNode, delta: number): void {
+    if (isHTML(element)) {
+      this.openCounts.set(element.tagName, (this.openCounts.get(element.tagName) ?? 0) + delta);
+    }
+  }
+
+  private currentNode(): ElementNode {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private adjustedCurrentNode(): ElementNode {
+    if (this.stack.length === 1) {
+      return this.context;
+    }
+    return this.stack[this.stack.length - 1];
+  }
+
+  private popUntil(...names: string[]): void {
+    while (this.stack.length > 1) {
+      const node = this.popElement() as ElementNode;
+      if (isHTML(node, ...names)) {
+        return;
+      }
+    }
+  }
+
+  private popUntilElement(element: ElementNode): void {
+    while (this.stack.length > 1) {
+      if (this.popElement() === element) {
+        return;
+      }
+    }
+  }
+
+  private hasInScope(names: string | string[], kind: ScopeKind = "default"): boolean {
+    const targets = Array.isArray(names) ? names : [names];
+    if (!targets.some((name) => this.openCounts.get(name))) {
+      return false;
+    }
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const node = this.stack[i];
+      if (isHTML(node) && targets.includes(node.tagName)) {
+        return true;
+      }
+      if (isScopeBoundary(node, kind)) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private hasElementInScope(element: ElementNode): boolean {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const node = this.stack[i];
+      if (node === element) {
+        return true;
+      }
+      if (isScopeBoundary(node, "default")) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private hasTemplateOnStack(): boolean {
+    return (this.openCounts.get("template") ?? 0) > 0;
+  }
+
+  private generateImpliedEndTags(except?: string, thorough = false): void {
+    const set = thorough ? IMPLIED_END_TAGS_THOROUGH : IMPLIED_END_TAGS;
+    for (;;) {
+      const node = this.currentNode();
+      if (!isHTML(node) || !set.has(node.tagName) || node.tagName === except) {
+        return;
+      }
+      this.popElement();
+    }
+  }
+
+  private closePElement(): void {
+    this.generateImpliedEndTags("p");
+    this.popUntil("p");
+  }
+
+  private closePIfInButtonScope(): void {
+    if (this.hasInScope("p", "button")) {
+      this.closePElement();
+    }
+  }
+
+  private clearStackBackTo(...names: string[]): void {
+    while (!isHTML(this.currentNode(), ...names, "template", "html")) {
+      this.popElement();
+    }
+  }
+
+  private resetInsertionMode(): void {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const last = i === 0;
+      const node = last ? this.context : this.stack[i];
+      if (!isHTML(node)) {
+        if (last) {
+          this.mode = Mode.InBody;
+          return;
+        }
+        continue;
+      }
+      switch (node.tagName) {
+        case "select":
+          if (!last) {
+            for (let j = i - 1; j > 0; j--) {
+              const ancestor = this.stack[j];
+              if (isHTML(ancestor, "template")) {
+                break;
+              }
+              if (isHTML(ancestor, "table")) {
+                this.mode = Mode.InSelectInTable;
+                return;
+              }
+            }
+          }
+          this.mode = Mode.InSelect;
+          return;
+        case "td":
+        case "th":
+          if (!last) {
+            this.mode = Mode.InCell;
+            return;
+          }
+          break;
+        case "tr":
+          this.mode = Mode.InRow;
+          return;
+        case "tbody":
+        case "thead":
+        case "tfoot":
+          this.mode = Mode.InTableBody;
+          return;
+        case "caption":
+          this.mode = Mode.InCaption;
+          return;
+        case "colgroup":
+          this.mode = Mode.InColumnGroup;
+          return;
+        case "table":
+          this.mode = Mode.InTable;
+          return;
+        case "template":
+          this.mode = this.templateModes[this.templateModes.length - 1] ?? Mode.InBody;
+          return;
+      }
+      if (last) {
+        this.mode = Mode.InBody;
+        return;
+      }
+    }
+    this.mode = Mode.InBody;
+  }
+
+  // Insertion
+
+  private insertionLocation(override?: ElementNode): {
+    parent: ParentNode;
+    before: ChildNode | null;
+  } {
+    const target = override ?? this.currentNode();
+    let parent: ParentNode = target;
+    let before: ChildNode | null = null;
+
+    if (this.stack.length > MAX_TREE_DEPTH && target.parent) {
+      // Too deeply nested: insert next to the target rather than into it
+      parent = target.parent;
+    } else if (this.fosterParenting && isHTML(target) && FOSTER_TARGETS.has(target.tagName)) {
+      let lastTemplate = -1;
+      let lastTable = -1;
+      this.stack.forEach((node, index) => {
+        if (isHTML(node, "template")) {
+          lastTemplate = index;
+        } else if (isHTML(node, "table")) {
+          lastTable = index;
+        }
+      });
+      if (lastTemplate !== -1 && (lastTable === -1 || lastTemplate > lastTable)) {
+        parent = this.stack[lastTemplate];
+      } else if (lastTable === -1) {
+        parent = this.stack[0];
+      } else {
+        const table = this.stack[lastTable];
+        if (table.parent) {
+          parent = table.parent;
+          before = table;
+        } else {
+          parent = this.stack[lastTable - 1];
+        }
+      }
+    }
+
+    if (parent.type === "element" && parent.content) {
+      parent = parent.content;
+    }
+    return { parent, before };
+  }
+
+  private createElementForToken(token: StartTagToken, namespace: string): ElementNode {
+    const element = createElement(token.name, namespace, this.sourceAttributes(token));
+    element.sourceOffset = this.tokenizer.sourceOffset(token.offset);
+    return element;
+  }
+
+  /**
+   * Copies of the attributes of a start tag, with offsets in the original input
+   */
+  private sourceAttributes(token: StartTagToken): Attribute[] {
+    return token.attributes.map((attr) => ({
+      ...attr,
+      sourceOffset: this.tokenizer.sourceOffset(attr.sourceOffset ?? token.offset),
+    }));
+  }
+
+  private insertElementNode(element: ElementNode): ElementNode {
+    const { parent, before } = this.insertionLocation();
+    insertBefore(parent, element, before);
+    this.pushElement(element);
+    return element;
+  }
+
+  private insertHTMLElement(token: StartTagToken): ElementNode {
+    return this.insertElementNode(this.createElementForToken(token, HTML_NAMESPACE));
+  }
+
+  private insertForeignElement(token: StartTagToken, namespace: string): ElementNode {
+    let name = token.name;
+    if (namespace === SVG_NAMESPACE) {
+      name = SVG_TAG_ADJUSTMENTS[name] ?? name;
+    }
+    const element = createElement(
+      name,
+      namespace,
+      adjustForeignAttributes(this.sourceAttributes(token), namespace)
+    );
+    element.sourceOffset = this.tokenizer.sourceOffset(token.offset);
+    return this.insertElementNode(element);
+  }
+
+  private insertCharacters(data: string, offset: number): void {
+    if (data === "") {
+      return;
+    }
+    const { parent, before } = this.insertionLocation();
+    const index = before ? parent.children.indexOf(before) : parent.children.length;
+    const previous = parent.children[index - 1];
+    if (previous?.type === "text") {
+      previous.value += data;
+      return;
+    }
+    const text = createText(data);
+    text.sourceOffset = this.tokenizer.sourceOffset(offset);
+    insertBefore(parent, text, before);
+  }
+
+  private insertComment(data: string, offset: number): void {
+    const { parent, before } = this.insertionLocation();
+    const comment = createComment(data);
+    comment.sourceOffset = this.tokenizer.sourceOffset(offset);
+    insertBefore(parent, comment, before);
+  }
+
+  private parseGenericText(token: StartTagToken, state: ContentState): void {
+    this.insertHTMLElement(token);
+    this.tokenizer.setContentState(state, token.name);
+    this.originalMode = this.mode;
+    this.mode = Mode.Text;
+  }
+
+  // Active formatting elements
+
+  private pushFormatting(element: ElementNode): void {
+    let count = 0;
+    let earliest = -1;
+    for (let i = this.formatting.length - 1; i >= 0; i--) {
+      const entry = this.formatting[i];
+      if (entry === MARKER) {
+        break;
+      }
+      if (sameElementSignature(entry, element)) {
+        count++;
+        earliest = i;
+      }
+    }
+    if (count >= 3) {
+      this.formatting.splice(earliest, 1);
+    }
+    this.formatting.push(element);
+  }
+
+  private reconstructFormatting(): void {
+    if (this.formatting.length === 0) {
+      return;
+    }
+    let index = this.formatting.length - 1;
+    let entry = this.formatting[index];
+    if (entry === MARKER || this.stack.lastIndexOf(entry) !== -1) {
+      return;
+    }
+    while (index > 0) {
+      entry = this.formatting[index - 1];
+      if (entry === MARKER || this.stack.lastIndexOf(entry) !== -1) {
+        break;
+      }
+      index--;
+    }
+    for (; index < this.formatting.length; index++) {
+      const element = this.formatting[index] as ElementNode;
+      const clone = this.insertElementNode(cloneElement(element));
+      this.formatting[index] = clone;
+    }
+  }
+
+  private clearFormattingToMarker(): void {
+    while (this.formatting.length > 0) {
+      if (this.formatting.pop() === MARKER) {
+        return;
+      }
+    }
+  }
+
+  private findFormattingElement(name: string): ElementNode | null {
+    for (let i = this.formatting.length - 1; i >= 0; i--) {
+      const entry = this.formatting[i];
+      if (entry === MARKER) {
+        return null;
+      }
+      if (isHTML(entry, name)) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  private removeFormatting(element: ElementNode): void {
+    const index = this.formatting.indexOf(element);
+    if (index !== -1) {
+      this.formatting.splice(index, 1);
+    }
+  }
+
+  /**
+   * Adoption agency algorithm for misnested formatting end tags
+   * Returns false when the caller should fall back to "any other end tag"
+   */
+  private adoptionAgency(subject: string): boolean {
+    const current = this.currentNode();
+    if (isHTML(current, subject) && !this.formatting.includes(current)) {
+      this.popElement();
+      return true;
+    }
+
+    for (let outer = 0; outer < 8; outer++) {
+      const formattingElement = this.findFormattingElement(subject);
+      if (!formattingElement) {
+        return false;
+      }
+      const stackIndex = this.stack.lastIndexOf(formattingElement);
+      if (stackIndex === -1) {
+        this.removeFormatting(formattingElement);
+        return true;
+      }
+      if (!this.hasElementInScope(formattingElement)) {
+        return true;
+      }
+
+      let furthestBlock: ElementNode | null = null;
+      for (let i = stackIndex + 1; i < this.stack.length; i++) {
+        if (isSpecial(this.stack[i])) {
+          furthestBlock = this.stack[i];
+          break;
+        }
+      }
+      if (!furthestBlock) {
+        this.popUntilElement(formattingElement);
+        this.removeFormatting(formattingElement);
+        return true;
+      }
+
+      const commonAncestor = this.stack[stackIndex - 1];
+      let bookmark = this.formatting.indexOf(formattingElement);
+      let node = furthestBlock;
+      let lastNode = furthestBlock;
+      let nodeIndex = this.stack.lastIndexOf(furthestBlock);
+
+      for (let inner = 1; ; inner++) {
+        nodeIndex--;
+        node = this.stack[nodeIndex];
+        if (node === formattingElement) {
+          break;
+        }
+        let formattingIndex = this.formatting.indexOf(node);
+        if (inner > 3 && formattingIndex !== -1) {
+          this.formatting.splice(formattingIndex, 1);
+          if (formattingIndex < bookmark) {
+            bookmark--;
+          }
+          formattingIndex = -1;
+        }
+        if (formattingIndex === -1) {
+          this.removeFromStack(nodeIndex);
+          continue;
+        }
+        const clone = cloneElement(node);
+        this.formatting[formattingIndex] = clone;
+        this.stack[nodeIndex] = clone;
+        node = clone;
+        if (lastNode === furthestBlock) {
+          bookmark = formattingIndex + 1;
+        }
+        appendChild(node, lastNode);
+        lastNode = node;
+      }
+
+      const { parent, before } = this.insertionLocation(commonAncestor);
+      insertBefore(parent, lastNode, before);
+
+      const clone = cloneElement(formattingElement);
+      moveChildren(furthestBlock, clone);
+      appendChild(furthestBlock, clone);
+
+      const oldIndex = this.formatting.indexOf(formattingElement);
+      this.formatting.splice(bookmark, 0, clone);
+      this.formatting.splice(oldIndex < bookmark ? oldIndex : oldIndex + 1, 1);
+
+      this.removeFromStack(this.stack.lastIndexOf(formattingElement));
+      this.stack.splice(this.stack.lastIndexOf(furthestBlock) + 1, 0, clone);
+      this.countOpen(clone, 1);
+    }
+    return true;
+  }
+
+  // Dispatch
+
+  private dispatch(token: Token): void {
+    if (this.skipNewline) {
+      this.skipNewline = false;
+      if (token.type === "characters" && token.data.startsWith("\n")) {
+        if (token.data.length === 1) {
+          return;
+        }
+        token = { ...token, data: token.data.slice(1), offset: token.offset + 1 };
+      }
+    }
+    if (this.isForeignContentToken(token)) {
+      this.processForeignContent(token);
+    } else {
+      this.process(token);
+    }
+  }
+
+  private isForeignContentToken(token: Token): boolean {
+    const node = this.adjustedCurrentNode();
+    if (node.namespace === HTML_NAMESPACE || token.type === "eof") {
+      return false;
+    }
+    if (isMathMLTextIntegrationPoint(node)) {
+      if (token.type === "characters") {
+        return false;
+      }
+      if (token.type === "startTag" && token.name !== "mglyph" && token.name !== "malignmark") {
+        return false;
+      }
+    }
+    if (
+      node.namespace === MATHML_NAMESPACE &&
+      node.tagName === "annotation-xml" &&
+      token.type === "startTag" &&
+      token.name === "svg"
+    ) {
+      return false;
+    }
+    if (
+      isHTMLIntegrationPoint(node) &&
+      (token.type === "startTag" || token.type === "characters")
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private process(token: Token): void {
+    switch (this.mode) {
+      case Mode.InBody:
+        this.inBody(token);
+        return;
+      case Mode.Text:
+        this.inText(token);
+        return;
+      case Mode.InTable:
+        this.inTable(token);
+        return;
+      case Mode.InTableText:
+        this.inTableText(token);
+        return;
+      case Mode.InCaption:
+        this.inCaption(token);
+        return;
+      case Mode.InColumnGroup:
+        this.inColumnGroup(token);
+        return;
+      case Mode.InTableBody:
+        this.inTableBody(token);
+        return;
+      case Mode.InRow:
+        this.inRow(token);
+        return;
+      case Mode.InCell:
+        this.inCell(token);
+        return;
+      case Mode.InSelect:
+        this.inSelect(token);
+        return;
+      case Mode.InSelectInTable:
+        this.inSelectInTable(token);
+        return;
+      case Mode.InTemplate:
+        this.inTemplate(token);
+        return;
+    }
+  }
+
+  private processForeignContent(token: Token): void {
+    switch (token.type) {
+      case "characters": {
+        const data = token.data.replace(/\0/g, "\ufffd");
+        this.insertCharacters(data, token.offset);
+        return;
+      }
+      case "comment":
+        this.insertComment(token.data, token.offset);
+        return;
+      case "doctype":
+        return;
+      case "startTag": {
+        const breakout =
+          FOREIGN_BREAKOUT_TAGS.has(token.name) ||
+          (token.name === "font" &&
+            token.attributes.some((attr) => ["color", "face", "size"].includes(attr.name)));
+        if (breakout) {
+          this.popToHTMLContent();
+          this.process(token);
+          return;
+        }
+        const namespace = this.adjustedCurrentNode().namespace;
+        this.insertForeignElement(token, namespace);
+        if (token.selfClosing) {
+          this.popElement();
+        }
+        return;
+      }
+      case "endTag": {
+        if (token.name === "br" || token.name === "p") {
+          this.popToHTMLContent();
+          this.process(token);
+          return;
+        }
+        let index = this.stack.length - 1;
+        let node = this.stack[index];
+        while (index > 0) {
+          if (node.tagName.toLowerCase() === token.name) {
+            this.popUntilElement(node);
+            return;
+          }
+          index--;
+          node = this.stack[index];
+          if (node.namespace === HTML_NAMESPACE) {
+            this.process(token);
+            return;
+          }
+        }
+        return;
+      }
+    }
+  }
+
+  private popToHTMLContent(): void {
+    while (this.stack.length > 1) {
+      const node = this.currentNode();
+      if (isHTML(node) || isMathMLTextIntegrationPoint(node) || isHTMLIntegrationPoint(node)) {
+        return;
+      }
+      this.popElement();
+    }
+  }
+
+  // Insertion modes
+
+  private inHead(token: StartTagToken): void {
+    switch (token.name) {
+      case "base":
+      case "basefont":
+      case "bgsound":
+      case "link":
+      case "meta":
+        this.insertHTMLElement(token);
+        this.popElement();
+        return;
+      case "title":
+        this.parseGenericText(token, "rcdata");
+        return;
+      case "noframes":
+      case "style":
+        this.parseGenericText(token, "rawtext");
+        return;
+      case "script":
+        this.parseGenericText(token, "scriptData");
+        return;
+      case "template":
+        this.insertHTMLElement(token);
+        this.formatting.push(MARKER);
+        this.mode = Mode.InTemplate;
+        this.templateModes.push(Mode.InTemplate);
+        return;
+    }
+  }
+
+  private endTemplate(): void {
+    if (!this.hasTemplateOnStack()) {
+      return;
+    }
+    this.generateImpliedEndTags(undefined, true);
+    this.popUntil("template");
+    this.clearFormattingToMarker();
+    this.templateModes.pop();
+    this.resetInsertionMode();
+  }
+
+  private inBody(token: Token): void {
+    switch (token.type) {
+      case "characters": {
+        const data = token.data.replace(/\0/g, "");
+        if (data === "") {
+          return;
+        }
+        this.reconstructFormatting();
+        this.insertCharacters(data, token.offset);
+        return;
+      }
+      case "comment":
+        this.insertComment(token.data, token.offset);
+        return;
+      case "doctype":
+        return;
+      case "eof":
+        if (this.templateModes.length > 0) {
+          this.inTemplate(token);
+        }
+        return;
+      case "startTag":
+        this.inBodyStartTag(token);
+        return;
+      case "endTag":
+        this.inBodyEndTag(token.name);
+        return;
+    }
+  }
+
+  private inBodyStartTag(token: StartTagToken): void {
+    const name = token.name;
+
+    if (name === "html") {
+      if (!this.hasTemplateOnStack()) {
+        for (const attr of this.sourceAttributes(token)) {
+          if (!this.root.attributes.some((existing) => existing.name === attr.name)) {
+            this.root.attributes.push(attr);
+          }
+        }
+      }
+      return;
+    }
+    if (HEAD_START_TAGS.has(name)) {
+      this.inHead(token);
+      return;
+    }
+    if (name === "body" || name === "frameset") {
+      // Only reachable with a <body> on the stack, which fragments never have
+      return;
+    }
+    if (BLOCK_START_TAGS.has(name)) {
+      this.closePIfInButtonScope();
+      this.insertHTMLElement(token);
+      return;
+    }
+    if (HEADINGS.has(name)) {
+      this.closePIfInButtonScope();
+      if (HEADINGS.has(this.currentNode().tagName) && isHTML(this.currentNode())) {
+        this.popElement();
+      }
+      this.insertHTMLElement(token);
+      return;
+    }
+
+    switch (name) {
+      case "pre":
+      case "listing":
+        this.closePIfInButtonScope();
+        this.insertHTMLElement(token);
+        this.skipNewline = true;
+        return;
+      case "form":
+        if (this.formElement && !this.hasTemplateOnStack()) {
+          return;
+        }
+        this.closePIfInButtonScope();
+        {
+          const form = this.insertHTMLElement(token);
+          if (!this.hasTemplateOnStack()) {
+            this.formElement = form;
+          }
+        }
+        return;
+      case "li":
+      case "dd":
+      case "dt": {
+        const closes = name === "li" ? ["li"] : ["dd", "dt"];
+        for (let i = this.stack.length - 1; i > 0; i--) {
+          const node = this.stack[i];
+          if (isHTML(node, ...closes)) {
+            this.generateImpliedEndTags(node.tagName);
+            this.popUntil(node.tagName);
+            break;
+          }
+          if (isSpecial(node) && !isHTML(node, "address", "div", "p")) {
+            break;
+          }
+        }
+        this.closePIfInButtonScope();
+        this.insertHTMLElement(token);
+        return;
+      }
+      case "plaintext":
+        this.closePIfInButtonScope();
+        this.insertHTMLElement(token);
+        this.tokenizer.setContentState("plaintext");
+        return;
+      case "button":
+        if (this.hasInScope("button")) {
+          this.generateImpliedEndTags();
+          this.popUntil("button");
+        }
+        this.reconstructFormatting();
+        this.insertHTMLElement(token);
+        return;
+      case "a": {
+        const existing = this.findFormattingElement("a");
+        if (existing) {
+          this.adoptionAgency("a");
+          this.removeFormatting(existing);
+          const index = this.stack.lastIndexOf(existing);
+          if (index !== -1) {
+            this.removeFromStack(index);
+          }
+        }
+        this.reconstructFormatting();
+        this.pushFormatting(this.insertHTMLElement(token));
+        return;
+      }
+      case "nobr":
+        this.reconstructFormatting();
+        if (this.hasInScope("nobr")) {
+          this.adoptionAgency("nobr");
+          this.reconstructFormatting();
+        }
+        this.pushFormatting(this.insertHTMLElement(token));
+        return;
+      case "applet":
+      case "marquee":
+      case "object":
+        this.reconstructFormatting();
+        this.insertHTMLElement(token);
+        this.formatting.push(MARKER);
+        return;
+      case "table":
+        this.closePIfInButtonScope();
+        this.insertHTMLElement(token);
+        this.mode = Mode.InTable;
+        return;
+      case "area":
+      case "br":
+      case "embed":
+      case "img":
+      case "keygen":
+      case "wbr":
+        this.reconstructFormatting();
+        this.insertHTMLElement(token);
+        this.popElement();
+        return;
+      case "input": {
+        this.reconstructFormatting();
+        this.insertHTMLElement(token);
+        this.popElement();
+        const type = token.attributes.find((attr) => attr.name === "type");
+        if (!type || type.value.toLowerCase() !== "hidden") {
+        }
+        return;
+      }
+      case "param":
+      case "source":
+      case "track":
+        this.insertHTMLElement(token);
+        this.popElement();
+        return;
+      case "hr":
+        this.closePIfInButtonScope();
+        this.insertHTMLElement(token);
+        this.popElement();
+        return;
+      case "image":
+        this.inBodyStartTag({ ...token, name: "img" });
+        return;
+      case "textarea":
+        this.insertHTMLElement(token);
+        this.skipNewline = true;
+        this.tokenizer.setContentState("rcdata", name);
+        this.originalMode = this.mode;
+        this.mode = Mode.Text;
+        return;
+      case "xmp":
+        this.closePIfInButtonScope();
+        this.reconstructFormatting();
+        this.parseGenericText(token, "rawtext");
+        return;
+      case "iframe":
+        this.parseGenericText(token, "rawtext");
+        return;
+      case "noembed":
+        this.parseGenericText(token, "rawtext");
+        return;
+      case "noscript":
+        if (this.scripting) {
+          this.parseGenericText(token, "rawtext");
+          return;
+        }
+        break;
+      case "select":
+        this.reconstructFormatting();
+        this.insertHTMLElement(token);
+        this.mode =
+          this.mode === Mode.InTable ||
+          this.mode === Mode.InCaption ||
+          this.mode === Mode.InTableBody ||
+          this.mode === Mode.InRow ||
+          this.mode === Mode.InCell
+            ? Mode.InSelectInTable
+            : Mode.InSelect;
+        return;
+      case "optgroup":
+      case "option":
+        if (isHTML(this.currentNode(), "option")) {
+          this.popElement();
+        }
+        this.reconstructFormatting();
+        this.insertHTMLElement(token);
+        return;
+      case "rb":
+      case "rtc":
+        if (this.hasInScope("ruby")) {
+          this.generateImpliedEndTags();
+        }
+        this.insertHTMLElement(token);
+        return;
+      case "rp":
+      case "rt":
+        if (this.hasInScope("ruby")) {
+          this.generateImpliedEndTags("rtc");
+        }
+        this.insertHTMLElement(token);
+        return;
+      case "math":
+      case "svg":
+        this.reconstructFormatting();
+        this.insertForeignElement(token, name === "math" ? MATHML_NAMESPACE : SVG_NAMESPACE);
+        if (token.selfClosing) {
+          this.popElement();
+        }
+        return;
+      case "caption":
+      case "col":
+      case "colgroup":
+      case "frame":
+      case "head":
+      case "tbody":
+      case "td":
+      case "tfoot":
+      case "th":
+      case "thead":
+      case "tr":
+        return;
+    }
+
+    if (FORMATTING_ELEMENTS.has(name)) {
+      this.reconstructFormatting();
+      this.pushFormatting(this.insertHTMLElement(token));
+      return;
+    }
+
+    this.reconstructFormatting();
+    this.insertHTMLElement(token);
+  }
+
+  private inBodyEndTag(name: string): void {
+    if (name === "template") {
+      this.endTemplate();
+      return;
+    }
+    if (name === "body" || name === "html") {
+      // Fragments never have a <body> in scope, so these are ignored
+      return;
+    }
+    if (BLOCK_END_TAGS.has(name)) {
+      if (!this.hasInScope(name)) {
+        return;
+      }
+      this.generateImpliedEndTags();
+      this.popUntil(name);
+      return;
+    }
+    if (HEADINGS.has(name)) {
+      const headings = [...HEADINGS];
+      if (!this.hasInScope(headings)) {
+        return;
+      }
+      this.generateImpliedEndTags();
+      this.popUntil(...headings);
+      return;
+    }
+    if (FORMATTING_ELEMENTS.has(name)) {
+      if (!this.adoptionAgency(name)) {
+        this.anyOtherEndTag(name);
+      }
+      return;
+    }
+
+    switch (name) {
+      case "form": {
+        if (this.hasTemplateOnStack()) {
+          if (!this.hasInScope("form")) {
+            return;
+          }
+          this.generateImpliedEndTags();
+          this.popUntil("form");
+          return;
+        }
+        const form = this.formElement;
+        this.formElement = null;
+        if (!form || !this.hasElementInScope(form)) {
+          return;
+        }
+        this.generateImpliedEndTags();
+        this.removeFromStack(this.stack.lastIndexOf(form));
+        return;
+      }
+      case "p":
+        if (!this.hasInScope("p", "button")) {
+          this.insertHTMLElement({
+            type: "startTag",
+            name: "p",
+            attributes: [],
+            selfClosing: false,
+            offset: -1,
+          });
+        }
+        this.closePElement();
+        return;
+      case "li":
+        if (!this.hasInScope("li", "listItem")) {
+          return;
+        }
+        this.generateImpliedEndTags("li");
+        this.popUntil("li");
+        return;
+      case "dd":
+      case "dt":
+        if (!this.hasInScope(name)) {
+          return;
+        }
+        this.generateImpliedEndTags(name);
+        this.popUntil(name);
+        return;
+      case "applet":
+      case "marquee":
+      case "object":
+        if (!this.hasInScope(name)) {
+          return;
+        }
+        this.generateImpliedEndTags();
+        this.popUntil(name);
+        this.clearFormattingToMarker();
+        return;
+      case "br":
+        this.inBodyStartTag({
+          type: "startTag",
+          name: "br",
+          attributes: [],
+          selfClosing: false,
+          offset: -1,
+        });
+        return;
+    }
+
+    this.anyOtherEndTag(name);
+  }
+
+  private anyOtherEndTag(name: string): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const node = this.stack[i];
+      if (isHTML(node, name)) {
+        this.generateImpliedEndTags(name);
+        this.popUntilElement(node);
+        return;
+      }
+      if (isSpecial(node)) {
+        return;
+      }
+    }
+  }
+
+  private inText(token: Token): void {
+    if (token.type === "characters") {
+      this.insertCharacters(token.data, token.offset);
+      return;
+    }
+    if (token.type === "eof") {
+      this.popElement();
+      this.mode = this.originalMode;
+      this.process(token);
+      return;
+    }
+    if (token.type === "endTag") {
+      this.popElement();
+      this.mode = this.originalMode;
+    }
+  }
+
+  private inTable(token: Token): void {
+    switch (token.type) {
+      case "characters":
+        if (isHTML(this.currentNode(), "table", "tbody", "template", "tfoot", "thead", "tr")) {
+          this.pendingTableText = [];
+          this.originalMode = this.mode;
+          this.mode = Mode.InTableText;
+          this.process(token);
+          return;
+        }
+        break;
+      case "comment":
+        this.insertComment(token.data, token.offset);
+        return;
+      case "doctype":
+        return;
+      case "startTag":
+        switch (token.name) {
+          case "caption":
+            this.clearStackBackTo("table");
+            this.formatting.push(MARKER);
+            this.insertHTMLElement(token);
+            this.mode = Mode.InCaption;
+            return;
+          case "colgroup":
+            this.clearStackBackTo("table");
+            this.insertHTMLElement(token);
+            this.mode = Mode.InColumnGroup;
+            return;
+          case "col":
+            this.clearStackBackTo("table");
+            this.insertHTMLElement(this.impliedStartTag("colgroup", token.offset));
+            this.mode = Mode.InColumnGroup;
+            this.process(token);
+            return;
+          case "tbody":
+          case "tfoot":
+          case "thead":
+            this.clearStackBackTo("table");
+            this.insertHTMLElement(token);
+            this.mode = Mode.InTableBody;
+            return;
+          case "td":
+          case "th":
+          case "tr":
+            this.clearStackBackTo("table");
+            this.insertHTMLElement(this.impliedStartTag("tbody", token.offset));
+            this.mode = Mode.InTableBody;
+            this.process(token);
+            return;
+          case "table":
+            if (!this.hasInScope("table", "table")) {
+              return;
+            }
+            this.popUntil("table");
+            this.resetInsertionMode();
+            this.process(token);
+            return;
+          case "style":
+          case "script":
+          case "template":
+            this.inHead(token);
+            return;
+          case "input": {
+            const type = token.attributes.find((attr) => attr.name === "type");
+            if (type && type.value.toLowerCase() === "hidden") {
+              this.insertHTMLElement(token);
+              this.popElement();
+              return;
+            }
+            break;
+          }
+          case "form":
+            if (this.hasTemplateOnStack() || this.formElement) {
+              return;
+            }
+            this.formElement = this.insertHTMLElement(token);
+            this.popElement();
+            return;
+        }
+        break;
+      case "endTag":
+        switch (token.name) {
+          case "table":
+            if (!this.hasInScope("table", "table")) {
+              return;
+            }
+            this.popUntil("table");
+            this.resetInsertionMode();
+            return;
+          case "body":
+          case "caption":
+          case "col":
+          case "colgroup":
+          case "html":
+          case "tbody":
+          case "td":
+          case "tfoot":
+          case "th":
+          case "thead":
+          case "tr":
+            return;
+          case "template":
+            this.endTemplate();
+            return;
+        }
+        break;
+      case "eof":
+        this.inBody(token);
+        return;
+    }
+
+    this.fosterParenting = true;
+    this.inBody(token);
+    this.fosterParenting = false;
+  }
+
+  private impliedStartTag(name: string, offset: number): StartTagToken {
+    return { type: "startTag", name, attributes: [], selfClosing: false, offset };
+  }
+
+  private inTableText(token: Token): void {
+    if (token.type === "characters") {
+      const data = token.data.replace(/\0/g, "");
+      if (data !== "") {
+        this.pendingTableText.push({ data, offset: token.offset });
+      }
+      return;
+    }
+    const pending = this.pendingTableText;
+    this.pendingTableText = [];
+    const nonWhitespace = pending.some((chunk) => !WHITESPACE.test(chunk.data));
+    for (const chunk of pending) {
+      if (nonWhitespace) {
+        this.fosterParenting = true;
+        this.inBody({ type: "characters", data: chunk.data, offset: chunk.offset });
+        this.fosterParenting = false;
+      } else {
+        this.insertCharacters(chunk.data, chunk.offset);
+      }
+    }
+    this.mode = this.originalMode;
+    this.process(token);
+  }
+
+  private inCaption(token: Token): void {
+    if (token.type === "endTag" && token.name === "caption") {
+      this.closeCaption();
+      return;
+    }
+    if (
+      (token.type === "startTag" && TABLE_STRUCTURE_TAGS.has(token.name)) ||
+      (token.type === "endTag" && token.name === "table")
+    ) {
+      if (this.closeCaption()) {
+        this.process(token);
+      }
+      return;
+    }
+    if (
+      token.type === "endTag" &&
+      ["body", "col", "colgroup", "html", "tbody", "td", "tfoot", "th", "thead", "tr"].includes(
+        token.name
+      )
+    ) {
+      return;
+    }
+    this.inBody(token);
+  }
+
+  private closeCaption(): boolean {
+    if (!this.hasInScope("caption", "table")) {
+      return false;
+    }
+    this.generateImpliedEndTags();
+    this.popUntil("caption");
+    this.clearFormattingToMarker();
+    this.mode = Mode.InTable;
+    return true;
+  }
+
+  private inColumnGroup(token: Token): void {
+    switch (token.type) {
+      case "characters": {
+        const leading = LEADING_WHITESPACE.exec(token.data)?.[0] ?? "";
+        if (leading) {
+          this.insertCharacters(leading, token.offset);
+        }
+        if (leading.length === token.data.length) {
+          return;
+        }
+        token = {
+          ...token,
+          data: token.data.slice(leading.length),
+          offset: token.offset + leading.length,
+        };
+        break;
+      }
+      case "comment":
+        this.insertComment(token.data, token.offset);
+        return;
+      case "doctype":
+        return;
+      case "startTag":
+        if (token.name === "html") {
+          this.inBody(token);
+          return;
+        }
+        if (token.name === "col") {
+          this.insertHTMLElement(token);
+          this.popElement();
+          return;
+        }
+        if (token.name === "template") {
+          this.inHead(token);
+          return;
+        }
+        break;
+      case "endTag":
+        if (token.name === "colgroup") {
+          if (isHTML(this.currentNode(), "colgroup")) {
+            this.popElement();
+            this.mode = Mode.InTable;
+          }
+          return;
+        }
+        if (token.name === "col") {
+          return;
+        }
+        if (token.name === "template") {
+          this.endTemplate();
+          return;
+        }
+        break;
+      case "eof":
+        this.inBody(token);
+        return;
+    }
+
+    if (!isHTML(this.currentNode(), "colgroup")) {
+      return;
+    }
+    this.popElement();
+    this.mode = Mode.InTable;
+    this.process(token);
+  }
+
+  private inTableBody(token: Token): void {
+    if (token.type === "startTag") {
+      switch (token.name) {
+        case "tr":
+          this.clearStackBackTo("tbody", "tfoot", "thead");
+          this.insertHTMLElement(token);
+          this.mode = Mode.InRow;
+          return;
+        case "th":
+        case "td":
+          this.clearStackBackTo("tbody", "tfoot", "thead");
+          this.insertHTMLElement(this.impliedStartTag("tr", token.offset));
+          this.mode = Mode.InRow;
+          this.process(token);
+          return;
+        case "caption":
+        case "col":
+        case "colgroup":
+        case "tbody":
+        case "tfoot":
+        case "thead":
+          if (this.closeTableSection()) {
+            this.process(token);
+          }
+          return;
+      }
+    } else if (token.type === "endTag") {
+      switch (token.name) {
+        case "tbody":
+        case "tfoot":
+        case "thead":
+          if (!this.hasInScope(token.name, "table")) {
+            return;
+          }
+          this.clearStackBackTo("tbody", "tfoot", "thead");
+          this.popElement();
+          this.mode = Mode.InTable;
+          return;
+        case "table":
+          if (this.closeTableSection()) {
+            this.process(token);
+          }
+          return;
+        case "body":
+        case "caption":
+        case "col":
+        case "colgroup":
+        case "html":
+        case "td":
+        case "th":
+        case "tr":
+          return;
+      }
+    }
+    this.inTable(token);
+  }
+
+  private closeTableSection(): boolean {
+    if (!this.hasInScope([...TABLE_SECTIONS], "table")) {
+      return false;
+    }
+    this.clearStackBackTo("tbody", "tfoot", "thead");
+    this.popElement();
+    this.mode = Mode.InTable;
+    return true;
+  }
+
+  private inRow(token: Token): void {
+    if (token.type === "startTag") {
+      switch (token.name) {
+        case "th":
+        case "td":
+          this.clearStackBackTo("tr");
+          this.insertHTMLElement(token);
+          this.mode = Mode.InCell;
+          this.formatting.push(MARKER);
+          return;
+        case "caption":
+        case "col":
+        case "colgroup":
+        case "tbody":
+        case "tfoot":
+        case "thead":
+        case "tr":
+          if (this.closeRow()) {
+            this.process(token);
+          }
+          return;
+      }
+    } else if (token.type === "endTag") {
+      switch (token.name) {
+        case "tr":
+          this.closeRow();
+          return;
+        case "table":
+          if (this.closeRow()) {
+            this.process(token);
+          }
+          return;
+        case "tbody":
+        case "tfoot":
+        case "thead":
+          if (!this.hasInScope(token.name, "table")) {
+            return;
+          }
+          if (this.closeRow()) {
+            this.process(token);
+          }
+          return;
+        case "body":
+        case "caption":
+        case "col":
+        case "colgroup":
+        case "html":
+        case "td":
+        case "th":
+          return;
+      }
+    }
+    this.inTable(token);
+  }
+
+  private closeRow(): boolean {
+    if (!this.hasInScope("tr", "table")) {
+      return false;
+    }
+    this.clearStackBackTo("tr");
+    this.popElement();
+    this.mode = Mode.InTableBody;
+    return true;
+  }
+
+  private inCell(token: Token): void {
+    if (token.type === "endTag") {
+      switch (token.name) {
+        case "td":
+        case "th":
+          if (!this.hasInScope(token.name, "table")) {
+            return;
+          }
+          this.generateImpliedEndTags();
+          this.popUntil(token.name);
+          this.clearFormattingToMarker();
+          this.mode = Mode.InRow;
+          return;
+        case "body":
+        case "caption":
+        case "col":
+        case "colgroup":
+        case "html":
+          return;
+        case "table":
+        case "tbody":
+        case "tfoot":
+        case "thead":
+        case "tr":
+          if (!this.hasInScope(token.name, "table")) {
+            return;
+          }
+          this.closeCell();
+          this.process(token);
+          return;
+      }
+    } else if (token.type === "startTag" && TABLE_STRUCTURE_TAGS.has(token.name)) {
+      if (!this.hasInScope(["td", "th"], "table")) {
+        return;
+      }
+      this.closeCell();
+      this.process(token);
+      return;
+    }
+    this.inBody(token);
+  }
+
+  private closeCell(): void {
+    this.generateImpliedEndTags();
+    this.popUntil("td", "th");
+    this.clearFormattingToMarker();
+    this.mode = Mode.InRow;
+  }
+
+  private inSelect(token: Token): void {
+    switch (token.type) {
+      case "characters":
+        this.insertCharacters(token.data.replace(/\0/g, ""), token.offset);
+        return;
+      case "comment":
+        this.insertComment(token.data, token.offset);
+        return;
+      case "doctype":
+        return;
+      case "eof":
+        this.inBody(token);
+        return;
+      case "startTag":
+        switch (token.name) {
+          case "html":
+            this.inBody(token);
+            return;
+          case "option":
+            if (isHTML(this.currentNode(), "option")) {
+              this.popElement();
+            }
+            this.insertHTMLElement(token);
+            return;
+          case "optgroup":
+            if (isHTML(this.currentNode(), "option")) {
+              this.popElement();
+            }
+            if (isHTML(this.currentNode(), "optgroup")) {
+              this.popElement();
+            }
+            this.insertHTMLElement(token);
+            return;
+          case "hr":
+            if (isHTML(this.currentNode(), "option")) {
+              this.popElement();
+            }
+            if (isHTML(this.currentNode(), "optgroup")) {
+              this.popElement();
+            }
+            this.insertHTMLElement(token);
+            this.popElement();
+            return;
+          case "select":
+            if (this.hasInScope("select", "select")) {
+              this.popUntil("select");
+              this.resetInsertionMode();
+            }
+            return;
+          case "input":
+          case "keygen":
+          case "textarea":
+            if (!this.hasInScope("select", "select")) {
+              return;
+            }
+            this.popUntil("select");
+            this.resetInsertionMode();
+            this.process(token);
+            return;
+          case "script":
+          case "template":
+            this.inHead(token);
+            return;
+        }
+        return;
+      case "endTag":
+        switch (token.name) {
+          case "optgroup": {
+            const previous = this.stack[this.stack.length - 2];
+            if (isHTML(this.currentNode(), "option") && previous && isHTML(previous, "optgroup")) {
+              this.popElement();
+            }
+            if (isHTML(this.currentNode(), "optgroup")) {
+              this.popElement();
+            }
+            return;
+          }
+          case "option":
+            if (isHTML(this.currentNode(), "option")) {
+              this.popElement();
+            }
+            return;
+          case "select":
+            if (this.hasInScope("select", "select")) {
+              this.popUntil("select");
+              this.resetInsertionMode();
+            }
+            return;
+          case "template":
+            this.endTemplate();
+            return;
+        }
+        return;
+    }
+  }
+
+  private inSelectInTable(token: Token): void {
+    const tableTags = ["caption", "table", "tbody", "tfoot", "thead", "tr", "td", "th"];
+    if (token.type === "startTag" && tableTags.includes(token.name)) {
+      this.popUntil("select");
+      this.resetInsertionMode();
+      this.process(token);
+      return;
+    }
+    if (token.type === "endTag" && tableTags.includes(token.name)) {
+      if (!this.hasInScope(token.name, "table")) {
+        return;
+      }
+      this.popUntil("select");
+      this.resetInsertionMode();
+      this.process(token);
+      return;
+    }
+    this.inSelect(token);
+  }
+
+  private inTemplate(token: Token): void {
+    switch (token.type) {
+      case "characters":
+      case "comment":
+      case "doctype":
+        this.inBody(token);
+        return;
+      case "startTag": {
+        if (HEAD_START_TAGS.has(token.name)) {
+          this.inHead(token);
+          return;
+        }
+        let mode = Mode.InBody;
+        if (["caption", "colgroup", "tbody", "tfoot", "thead"].includes(token.name)) {
+          mode = Mode.InTable;
+        } else if (token.name === "col") {
+          mode = Mode.InColumnGroup;
+        } else if (token.name === "tr") {
+          mode = Mode.InTableBody;
+        } else if (token.name === "td" || token.name === "th") {
+          mode = Mode.InRow;
+        }
+        this.templateModes.pop();
+        this.templateModes.push(mode);
+        this.mode = mode;
+        this.process(token);
+        return;
+      }
+      case "endTag":
+        if (token.name === "template") {
+          this.endTemplate();
+        }
+        return;
+      case "eof":
+        if (!this.hasTemplateOnStack()) {
+          return;
+        }
+        this.popUntil("template");
+        this.clearFormattingToMarker();
+        this.templateModes.pop();
+        this.resetInsertionMode();
+        // Processed again by parse(), instead of recursing once per open template
+        this.reprocessEOF = true;
+        return;
+    }
+  }
+}
+
+/**
+ * Parse an HTML fragment the way `element.innerHTML = html` would
+ */
+export function parseFragment(html: string, options: ParseOptions = {}): FragmentNode {
+  return new TreeBuilder(html, options).parse();
+}
@@ -0,0 +1,307 @@
+/**
+ * Conversion of a sanitized node tree into React elements, so sanitized HTML can be
+ * rendered, server-rendered and hydrated like any other React subtree
+ */
+
+import React from "react";
+import { parseDeclarations } from "./css";
+import {
+  type Attribute,
+  type ChildNode,
+  childNodesOf,
+  type ElementNode,
+  HTML_NAMESPACE,
+  type ParentNode,
+  SVG_NAMESPACE,
+  VOID_ELEMENTS,
+} from "./dom";
+import { parseFragment } from "./parser";
+
+/**
+ * React components rendered in place of elements, keyed by tag name (lowercase for HTML,
+ * as written for SVG and MathML)
+ */
+export type ReactComponentMap = Record<string, React.ElementType>;
+
+/**
+ * Options for converting a node tree into React nodes
+ */
+export interface ReactNodeOptions {
+  /**
+   * Components rendered instead of elements, e.g. `{ a: Link }`
+   * A component receives the props the element would have had, and its children; only
+   * elements the sanitizer kept are rendered, so the allowlist still applies
+   */
+  components?: ReactComponentMap;
+}
+
+/**
+ * HTML attributes React knows by a different (camelCase) prop name
+ */
+const PROP_NAMES: Record<string, string> = {
+  "accept-charset": "acceptCharset",
+  accesskey: "accessKey",
+  allowfullscreen: "allowFullScreen",
+  autocapitalize: "autoCapitalize",
+  autocomplete: "autoComplete",
+  autofocus: "autoFocus",
+  autoplay: "autoPlay",
+  cellpadding: "cellPadding",
+  cellspacing: "cellSpacing",
+  charset: "charSet",
+  class: "className",
+  colspan: "colSpan",
+  contenteditable: "contentEditable",
+  crossorigin: "crossOrigin",
+  datetime: "dateTime",
+  disablepictureinpicture: "disablePictureInPicture",
+  disableremoteplayback: "disableRemotePlayback",
+  enctype: "encType",
+  enterkeyhint: "enterKeyHint",
+  fetchpriority: "fetchPriority",
+  for: "htmlFor",
+  formaction: "formAction",
+  formenctype: "formEncType",
+  formmethod: "formMethod",
+  formnovalidate: "formNoValidate",
+  formtarget: "formTarget",
+  frameborder: "frameBorder",
+  hreflang: "hrefLang",
+  "http-equiv": "httpEquiv",
+  inputmode: "inputMode",
+  itemid: "itemID",
+  itemprop: "itemProp",
+  itemref: "itemRef",
+  itemscope: "itemScope",
+  itemtype: "itemType",
+  marginheight: "marginHeight",
+  marginwidth: "marginWidth",
+  maxlength: "maxLength",
+  minlength: "minLength",
+  nomodule: "noModule",
+  novalidate: "noValidate",
+  playsinline: "playsInline",
+  readonly: "readOnly",
+  referrerpolicy: "referrerPolicy",
+  rowspan: "rowSpan",
+  spellcheck: "spellCheck",
+  srcdoc: "srcDoc",
+  srclang: "srcLang",
+  srcset: "srcSet",
+  tabindex: "tabIndex",
+  usemap: "useMap",
+};
+
+/**
+ * Boolean attributes, passed as `true` since React drops them for any string value but ""
+ */
+const BOOLEAN_PROPS = new Set([
+  "allowFullScreen",
+  "async",
+  "autoFocus",
+  "autoPlay",
+  "checked",
+  "controls",
+  "default",
+  "defer",
+  "disabled",
+  "disablePictureInPicture",
+  "disableRemotePlayback",
+  "formNoValidate",
+  "hidden",
+  "inert",
+  "itemScope",
+  "loop",
+  "multiple",
+  "muted",
+  "noModule",
+  "noValidate",
+  "open",
+  "playsInline",
+  "readOnly",
+  "required",
+  "reversed",
+  "selected",
+]);
+
+/**
+ * Props with a meaning to React itself, which markup must never set
+ */
+const RESERVED_PROPS = new Set([
+  "children",
+  "dangerouslysetinnerhtml",
+  "key",
+  "ref",
+  "suppresscontenteditablewarning",
+  "suppresshydrationwarning",
+]);
+
+/**
+ * HTML table elements whose whitespace text React would render as invalid DOM nesting
+ * The parser keeps such whitespace where browsers do; React warns about it and fails
+ * to hydrate, so it is left out
+ */
+const TABLE_STRUCTURE_ELEMENTS = new Set(["table", "thead", "tbody", "tfoot", "tr", "colgroup"]);
+
+/**
+ * Convert a hyphenated name to camelCase (`stroke-width` → `strokeWidth`)
+ */
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Convert a `style` attribute into a React style object
+ * Custom properties keep their name; vendor prefixes follow React (`-webkit-x` → `WebkitX`,
+ * `-ms-x` → `msX`)
+ */
+export function styleToObject(style: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const { name, value } of parseDeclarations(style)) {
+    if (name.startsWith("--")) {
+      result[name] = value;
+      continue;
+    }
+    result[camelCase(name.toLowerCase().replace(/^-ms-/, "ms-"))] = value;
+  }
+  return result;
+}
+
+/**
+ * React prop name of an attribute, or null for attributes React must not receive
+ */
+function propName(element: ElementNode, attribute: Attribute): string | null {
+  const name = attribute.name;
+  const lowerName = name.toLowerCase();
+  // Event handlers would be strings, never functions; the sanitizer removes them anyway
+  if (RESERVED_PROPS.has(lowerName) || lowerName.startsWith("on")) {
+    return null;
+  }
+  if (lowerName.startsWith("data-") || lowerName.startsWith("aria-")) {
+    return lowerName;
+  }
+  // `xlink:href` → `xlinkHref`, `xml:lang` → `xmlLang`
+  if (attribute.namespace) {
+    return name.replace(/:([a-z])/, (_, letter: string) => letter.toUpperCase());
+  }
+  if (element.namespace === SVG_NAMESPACE) {
+    return name === "class" ? "className" : camelCase(name);
+  }
+  return PROP_NAMES[lowerName] ?? lowerName;
+}
+
+/**
+ * React props of an element
+ * Form field values become `defaultValue`/`defaultChecked`, so React does not treat the
+ * fields as controlled
+ */
+function toProps(element: ElementNode, key: number): Record<string, unknown> {
+  const props: Record<string, unknown> = { key };
+  const isHTML = element.namespace === HTML_NAMESPACE;
+
+  for (const attribute of element.attributes) {
+    const name = propName(element, attribute);
+    if (name === null) {
+      continue;
+    }
+    if (name === "style") {
+      props.style = styleToObject(attribute.value);
+    } else if (isHTML && BOOLEAN_PROPS.has(name)) {
+      props[name] = true;
+    } else {
+      props[name] = attribute.value;
+    }
+  }
+
+  if (isHTML && ["input", "select", "textarea"].includes(element.tagName)) {
+    if ("value" in props) {
+      props.defaultValue = props.value;
+      delete props.value;
+    }
+    if ("checked" in props) {
+      props.defaultChecked = props.checked;
+      delete props.checked;
+    }
+  }
+
+  return props;
+}
+
+/**
+ * React node for a single tree node
+ * Comments and DOCTYPEs have no React equivalent and are left out
+ */
+function toReactNode(
+  node: ChildNode,
+  key: number,
+  components: Map<string, React.ElementType>
+): React.ReactNode {
+  switch (node.type) {
+    case "text":
+      return node.value;
+    case "comment":
+    case "doctype":
+      return null;
+  }
+
+  const props = toProps(node, key);
+  const isHTML = node.namespace === HTML_NAMESPACE;
+  const isVoid = isHTML && VOID_ELEMENTS.has(node.tagName);
+  const children = isVoid ? [] : childrenToReactNodes(node, components);
+
+  const component = components.get(node.tagName);
+  if (component) {
+    return React.createElement(component, props, ...children);
+  }
+  if (isVoid) {
+    return React.createElement(node.tagName, props);
+  }
+  if (isHTML && node.tagName === "textarea") {
+    // React takes the initial text of a textarea as its default value
+    props.defaultValue = children.join("");
+    return React.createElement(node.tagName, props);
+  }
+  return React.createElement(node.tagName, props, ...children);
+}
+
+/**
+ * React nodes for the children of a node, with components looked up by tag name
+ */
+function childrenToReactNodes(
+  parent: ParentNode,
+  components: Map<string, React.ElementType>
+): React.ReactNode[] {
+  const dropsWhitespace =
+    parent.type === "element" &&
+    parent.namespace === HTML_NAMESPACE &&
+    TABLE_STRUCTURE_ELEMENTS.has(parent.tagName);
+  return childNodesOf(parent)
+    .map((node, index) =>
+      dropsWhitespace && node.type === "text" && /^[\t\n\f\r ]*$/.test(node.value)
+        ? null
+        : toReactNode(node, index, components)
+    )
+    .filter((node) => node !== null);
+}
+
+/**
+ * React nodes for the children of a parsed, sanitized node (template contents included)
+ */
+export function toReactNodes(
+  parent: ParentNode,
+  options: ReactNodeOptions = {}
+): React.ReactNode[] {
+  return childrenToReactNodes(parent, new Map(Object.entries(options.components ?? {})));
+}
+
+/**
+ * React nodes for HTML that has already been sanitized
+ * The markup is parsed with the built-in parser, so the server and the browser build the
+ * same elements and hydration matches
+ */
+export function sanitizedHTMLToReactNodes(
+  html: string,
+  options?: ReactNodeOptions
+): React.ReactNode[] {
+  return toReactNodes(parseFragment(html), options);
+}
@@ -1,5 +1,7 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Sanitizer, type SanitizerConfig, sanitizeHTML } from "./sanitizer";
+import React, { useContext, useEffect, useMemo, useRef } from "react";
+import { STRING_BACKEND } from "./backend";
+import { type ReactComponentMap, sanitizedHTMLToReactNodes } from "./react-nodes";
+import { type SanitizeReport, Sanitizer, type SanitizerConfig, sanitizeHTML } from "./sanitizer";
 
 /**
  * Props for the SafeHTML component
@@ -11,6 +13,11 @@ export interface SafeHTMLProps {
   sanitizerConfig?: SanitizerConfig;
   /** Custom sanitizer instance */
   sanitizer?: Sanitizer;
+  /**
+   * Named policy of the nearest SanitizerProvider (default: its `default` policy, if any)
+   * `sanitizerConfig` can only tighten it
+   */
+  policy?: string;
   /** CSS class name for the wrapper element */
   className?: string;
   /** Inline styles for the wrapper element */
@@ -19,95 +26,295 @@ export interface SafeHTMLProps {
   tag?: string;
   /** Callback when HTML is sanitized */
   onSanitize?: (sanitizedHTML: string) => void;
-  /** Whether to show a warning if HTML was modified during sanitization */
+  /** Callback with what sanitizing removed or changed, after every sanitization */
+  onReport?: (report: SanitizeReport) => void;
+  /**
+   * Whether to show a warning if HTML was modified during sanitization
+   * (default: true when `renderWarning` is set)
+   */
   showSanitizationWarning?: boolean;
+  /** Render the warning shown when HTML was modified, instead of the built-in one */
+  renderWarning?: (report: SanitizeReport) => React.ReactNode;
+  /**
+   * How the sanitized HTML is rendered (default: 'elements' with `components`, else 'innerHTML')
+   * - innerHTML: set as the wrapper's inner HTML; React does not look inside it
+   * - elements: rendered as React elements, diffed by React like any other subtree
+   */
+  renderMode?: "innerHTML" | "elements";
+  /**
+   * Components rendered instead of sanitized elements, keyed by tag name,
+   * e.g. `{ a: Link, img: Image }` (elements render mode only)
+   */
+  components?: ReactComponentMap;
+}
+
+/**
+ * Receiver of the sanitization reports of SafeHTML, useSafeHTML and withSafeHTML
+ */
+interface SanitizationReportContextValue {
+  onReport?: (report: SanitizeReport) => void;
+}
+
+const SanitizationReportContext = React.createContext<SanitizationReportContextValue>({});
+
+/**
+ * Props for the SanitizationReportProvider component
+ */
+export interface SanitizationReportProviderProps {
+  /** Called with the report of every sanitization below the provider, e.g. to send telemetry */
+  onReport: (report: SanitizeReport) => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * Send the sanitization reports of the components below to a callback
+ * Reports also reach the providers further up
+ */
+export const SanitizationReportProvider: React.FC<SanitizationReportProviderProps> = ({
+  onReport,
+  children,
+}) => {
+  const parent = useContext(SanitizationReportContext);
+  // Called through a ref, so an inline onReport does not change the context value
+  const latest = useRef(onReport);
+  latest.current = onReport;
+  const value = useMemo<SanitizationReportContextValue>(
+    () => ({
+      onReport: (report) => {
+        latest.current(report);
+        parent.onReport?.(report);
+      },
+    }),
+    [parent]
+  );
+  return (
+    <SanitizationReportContext.Provider value={value}>
+      {children}
+    </SanitizationReportContext.Provider>
+  );
+};
+
+/**
+ * Pass a report to a callback and to the nearest SanitizationReportProvider, after rendering
+ * The effect only depends on the report, so each report is sent once however often the
+ * component renders; the callbacks are the latest ones, kept in a ref
+ */
+function useReportEffect(report: SanitizeReport, onReport?: (report: SanitizeReport) => void) {
+  const context = useContext(SanitizationReportContext);
+  const callbacks = useRef({ onReport, context });
+  callbacks.current = { onReport, context };
+  useEffect(() => {
+    callbacks.current.onReport?.(report);
+    callbacks.current.context.onReport?.(report);
+  }, [report]);
+}
+
+/**
+ * Built-in warning shown under modified HTML
+ */
+function defaultWarning(): React.ReactNode {
+  return (
+    <div
+      style={{
+        fontSize: "12px",
+        color: "#ff6b6b",
+        marginTop: "4px",
+        fontStyle: "italic",
+      }}
+    >
+      ⚠️ HTML content was sanitized for security
+    </div>
+  );
+}
+
+/**
+ * Stable key of a configuration, so equal configurations share a sanitizer
+ */
+function configKey(config: SanitizerConfig | undefined): string {
+  return JSON.stringify(config ?? null);
+}
+
+/**
+ * Configuration for rendering
+ * The built-in parser is used unless the configuration names a backend: a browser's DOM
+ * parser could sanitize differently from the server and break hydration
+ */
+function renderConfig(config?: SanitizerConfig): SanitizerConfig {
+  return { ...config, backend: config?.backend ?? STRING_BACKEND };
+}
+
+/**
+ * Create a sanitizer for rendering, with the built-in parser unless a backend is configured
+ */
+export function createRenderSanitizer(config?: SanitizerConfig): Sanitizer {
+  return new Sanitizer(renderConfig(config));
+}
+
+/**
+ * Policy used when a component names none
+ */
+const DEFAULT_POLICY = "default";
+
+/**
+ * Sanitizers of the named policies of the nearest SanitizerProvider
+ */
+const SanitizerPolicyContext = React.createContext<ReadonlyMap<string, Sanitizer>>(new Map());
+SanitizerPolicyContext.displayName = "SanitizerPolicyContext";
+
+/**
+ * Props for the SanitizerProvider component
+ */
+export interface SanitizerProviderProps {
+  /**
+   * Sanitizer configurations by policy name, e.g. `{ comment: {...}, article: {...} }`
+   * A `default` policy applies to components that name none
+   */
+  policies: Record<string, SanitizerConfig>;
+  children?: React.ReactNode;
+}
+
+/**
+ * Provide named sanitizer policies to the components below
+ * A policy an outer provider already defines is tightened: its sanitizer still runs on the
+ * output, so a nested provider can remove more but never allow anything it removes.
+ * Sanitizers are created once per provider and recreated only when `policies` changes by value
+ */
+export const SanitizerProvider: React.FC<SanitizerProviderProps> = ({ policies, children }) => {
+  const parent = useContext(SanitizerPolicyContext);
+  const key = configKey(policies);
+  const ref = useRef<{
+    key: string;
+    parent: ReadonlyMap<string, Sanitizer>;
+    sanitizers: ReadonlyMap<string, Sanitizer>;
+  } | null>(null);
+
+  if (!ref.current || ref.current.key !== key || ref.current.parent !== parent) {
+    const sanitizers = new Map(parent);
+    for (const [name, config] of Object.entries(policies)) {
+      const outer = parent.get(name);
+      sanitizers.set(
+        name,
+        outer ? outer.tighten(renderConfig(config)) : createRenderSanitizer(config)
+      );
+    }
+    ref.current = { key, parent, sanitizers };
+  }
+
+  return (
+    <SanitizerPolicyContext.Provider value={ref.current.sanitizers}>
+      {children}
+    </SanitizerPolicyContext.Provider>
+  );
+};
+
+/**
+ * Sanitizer for a configuration, created again only when the configuration changes by value
+ * Under a SanitizerProvider the configuration tightens `policy`, or the `default` policy;
+ * naming a policy no provider defines throws
+ */
+export function useSanitizer(config?: SanitizerConfig, policy?: string): Sanitizer {
+  const policies = useContext(SanitizerPolicyContext);
+  const base = policies.get(policy ?? DEFAULT_POLICY);
+  if (policy !== undefined && !base) {
+    throw new Error(`Unknown sanitizer policy "${policy}"`);
+  }
+
+  const key = configKey(config);
+  const ref = useRef<{ key: string; base?: Sanitizer; sanitizer: Sanitizer } | null>(null);
+  if (!ref.current || ref.current.key !== key || ref.current.base !== base) {
+    let sanitizer: Sanitizer;
+    if (!base) {
+      sanitizer = createRenderSanitizer(config);
+    } else {
+      sanitizer = config ? base.tighten(renderConfig(config)) : base;
+    }
+    ref.current = { key, base, sanitizer };
+  }
+  return ref.current.sanitizer;
 }
 
 /**
  * React component for safely rendering HTML
+ * Sanitizing happens during render, so server rendering and hydration see the same markup
  */
 export const SafeHTML: React.FC<SafeHTMLProps> = ({
   html,
   sanitizerConfig,
   sanitizer,
+  policy,
   className,
   style,
   tag: Tag = "div",
   onSanitize,
-  showSanitizationWarning = false,
+  onReport,
+  renderWarning = defaultWarning,
+  showSanitizationWarning = renderWarning !== defaultWarning,
+  components,
+  renderMode = components ? "elements" : "innerHTML",
 }) => {
-  const [sanitizedHTML, setSanitizedHTML] = useState<string>("");
-  const [wasModified, setWasModified] = useState<boolean>(false);
-  const elementRef = useRef<HTMLElement>(null);
+  const configSanitizer = useSanitizer(sanitizerConfig, policy);
+  const sanitizerInstance = sanitizer || configSanitizer;
 
-  const sanitizedContent = useMemo(() => {
-    const sanitizerInstance = sanitizer || new Sanitizer(sanitizerConfig);
-    const sanitized = sanitizerInstance.sanitize(html);
-    const modified = sanitized !== html;
-
-    setWasModified(modified);
-    onSanitize?.(sanitized);
+  const report = useMemo(
+    () => sanitizerInstance.sanitizeWithReport(html),
+    [html, sanitizerInstance]
+  );
+  const wasModified = report.actions.length > 0 || report.roundTrip !== undefined;
 
-    return sanitized;
-  }, [html, sanitizerConfig, sanitizer, onSanitize]);
+  const children = useMemo(
+    () =>
+      renderMode === "elements"
+        ? sanitizedHTMLToReactNodes(report.html, { components })
+        : undefined,
+    [renderMode, report, components]
+  );
 
+  // Like reports, the sanitized HTML is passed on once per change, to the latest callback
+  const latestOnSanitize = useRef(onSanitize);
+  latestOnSanitize.current = onSanitize;
   useEffect(() => {
-    setSanitizedHTML(sanitizedContent);
-  }, [sanitizedContent]);
+    latestOnSanitize.current?.(report.html);
+  }, [report]);
+  useReportEffect(report, onReport);
 
-  useEffect(() => {
-    if (elementRef.current) {
-      elementRef.current.innerHTML = sanitizedHTML;
-    }
-  }, [sanitizedHTML]);
+  // Rendered as markup rather than written after mounting, so it is part of SSR output
+  const content =
+    renderMode === "elements" ? {} : { dangerouslySetInnerHTML: { __html: report.html } };
 
   return (
     <>
-      {React.createElement(Tag, {
-        ref: elementRef,
-        className: className,
-        style: style,
-      })}
-      {showSanitizationWarning && wasModified && (
-        <div
-          style={{
-            fontSize: "12px",
-            color: "#ff6b6b",
-            marginTop: "4px",
-            fontStyle: "italic",
-          }}
-        >
-          ⚠️ HTML content was sanitized for security
-        </div>
-      )}
+      {React.createElement(Tag, { className, style, ...content }, children)}
+      {showSanitizationWarning && wasModified && renderWarning(report)}
     </>
   );
 };
 
 /**
- * React hook for safe HTML rendering
+ * React hook for safe HTML rendering, with a named policy of the nearest SanitizerProvider
+ * `wasModified` is true when sanitizing removed or changed anything; `report` has the details
+ * and is also sent to the nearest SanitizationReportProvider
  */
 export function useSafeHTML(
   html: string,
-  sanitizerConfig?: SanitizerConfig
+  sanitizerConfig?: SanitizerConfig,
+  policy?: string
 ): {
   sanitizedHTML: string;
   wasModified: boolean;
+  report: SanitizeReport;
   sanitizer: Sanitizer;
 } {
-  const sanitizer = useMemo(() => new Sanitizer(sanitizerConfig), [sanitizerConfig]);
+  const sanitizer = useSanitizer(sanitizerConfig, policy);
 
-  const sanitizedHTML = useMemo(() => {
-    return sanitizer.sanitize(html);
+  const report = useMemo(() => {
+    return sanitizer.sanitizeWithReport(html);
   }, [html, sanitizer]);
-
-  const wasModified = useMemo(() => {
-    return sanitizedHTML !== html;
-  }, [sanitizedHTML, html]);
+  useReportEffect(report);
 
   return {
-    sanitizedHTML,
-    wasModified,
+    sanitizedHTML: report.html,
+    wasModified: report.actions.length > 0 || report.roundTrip !== undefined,
+    report,
     sanitizer,
   };
 }
@@ -120,20 +327,21 @@ export function withSafeHTML<P extends object>(
   Component: React.ComponentType<P>,
   defaultSanitizerConfig?: SanitizerConfig
 ) {
-  return React.forwardRef<HTMLElement, P & { html: string; sanitizerConfig?: SanitizerConfig }>(
-    (props, ref) => {
-      const { html, sanitizerConfig, ...restProps } = props;
-      const { sanitizedHTML } = useSafeHTML(html, sanitizerConfig || defaultSanitizerConfig);
-
-      return (
-        <Component
-          {...(restProps as P)}
-          ref={ref}
-          dangerouslySetInnerHTML={{ __html: sanitizedHTML }}
-        />
-      );
-    }
-  );
+  return React.forwardRef<
+    HTMLElement,
+    P & { html: string; sanitizerConfig?: SanitizerConfig; policy?: string }
+  >((props, ref) => {
+    const { html, sanitizerConfig, policy, ...restProps } = props;
+    const { sanitizedHTML } = useSafeHTML(html, sanitizerConfig || defaultSanitizerConfig, policy);
+
+    return (
+      <Component
+        {...(restProps as P)}
+        ref={ref}
+        dangerouslySetInnerHTML={{ __html: sanitizedHTML }}
+      />
+    );
+  });
 }
 
 /**
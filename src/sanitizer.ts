@@ -1,28 +1,323 @@
+import { detectBackend, type SanitizerBackend, toDOMFragment } from "./backend";
+import {
+  type CssSanitizeOptions,
+  DEFAULT_STYLE_PROPERTIES,
+  sanitizeDeclarations,
+  sanitizeStylesheet,
+} from "./css";
+import {
+  type Attribute,
+  appendChild,
+  attachDeclarativeShadowRoots,
+  type ChildNode,
+  childNodesOf,
+  containerOf,
+  createFragment,
+  createText,
+  type ElementNode,
+  type FragmentNode,
+  HTML_NAMESPACE,
+  type ParentNode,
+  removeAttribute,
+  removeNode,
+  SVG_NAMESPACE,
+  serializeChildren,
+  VOID_ELEMENTS,
+} from "./dom";
+import { hasValidNamespace, SANITIZER_PROFILES, type SanitizerProfile } from "./foreign";
+import { applyLinkPolicy, type LinkPolicy } from "./links";
+import {
+  createNativeSanitizer,
+  getNativeMethod,
+  type NativeSanitizerConfig,
+  type SetHTMLMethod,
+  toNativeSanitizerConfig,
+} from "./native";
+import {
+  classifyUrl,
+  DEFAULT_URL_ATTRIBUTES,
+  getUrlScheme,
+  PLACEHOLDER_BASE_URL,
+  parseDataUrl,
+  rewriteUrlAttribute,
+  type UrlAttributeType,
+} from "./urls";
+
+/**
+ * Element name with an optional namespace (defaults to the HTML namespace)
+ * Compatible with native SanitizerElementNamespace
+ */
+export interface SanitizerElementNamespace {
+  /** Element local name */
+  name: string;
+  /** Element namespace; `null` means no namespace */
+  namespace?: string | null;
+}
+
+/**
+ * Attribute name with an optional namespace (defaults to no namespace)
+ * Compatible with native SanitizerAttributeNamespace
+ */
+export interface SanitizerAttributeNamespace {
+  /** Attribute local name */
+  name: string;
+  /** Attribute namespace, e.g. the XLink namespace for `xlink:href` */
+  namespace?: string | null;
+}
+
+/**
+ * Attribute entry: a plain name or a namespaced name
+ */
+export type SanitizerAttribute = string | SanitizerAttributeNamespace;
+
+export type { SanitizerBackend } from "./backend";
+export type { SanitizerProfile } from "./foreign";
+export type { LinkPolicy } from "./links";
+export type { NativeSanitizerConfig } from "./native";
+
+/**
+ * Per-element entry of `SanitizerConfig.elements`
+ * Compatible with native SanitizerElementNamespaceWithAttributes
+ */
+export interface SanitizerElementConfig extends SanitizerElementNamespace {
+  /** Attributes allowed on this element in addition to the global allowlist */
+  attributes?: SanitizerAttribute[];
+  /** Attributes removed from this element even when allowed globally */
+  removeAttributes?: SanitizerAttribute[];
+}
+
+/**
+ * Element entry: a plain name or a namespaced name
+ */
+export type SanitizerElement = string | SanitizerElementNamespace;
+
+/**
+ * Element entry of the allowlist: a plain name or a per-element configuration
+ */
+export type SanitizerElementWithAttributes = string | SanitizerElementConfig;
+
+/**
+ * Data URLs allowed by the sanitizer
+ * Data URLs are checked against this policy instead of `allowedProtocols`
+ */
+export interface DataUrlPolicy {
+  /** Allowed MIME types, e.g. `image/png` */
+  mimeTypes: string[];
+  /** Where data URLs may appear, as `element[attribute]` (defaults to `img[src]`) */
+  targets?: string[];
+  /** Maximum decoded size in bytes */
+  maxSize?: number;
+}
+
+/**
+ * Default data URL policy: raster images in `<img src>`, up to 1 MiB
+ * `image/svg+xml` and `text/html` are left out on purpose as they can carry script
+ */
+export const DEFAULT_DATA_URL_POLICY: DataUrlPolicy = {
+  mimeTypes: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+  targets: ["img[src]"],
+  maxSize: 1024 * 1024,
+};
+
 /**
  * Configuration options for HTML sanitization
  * Compatible with native SanitizerConfig API
  */
 export interface SanitizerConfig {
-  /** Allowed HTML elements (MDN compatible) */
-  elements?: string[];
-  /** Disallowed HTML elements (MDN compatible) */
-  removeElements?: string[];
+  /** Allowed HTML elements (MDN compatible); other elements are replaced with their children */
+  elements?: SanitizerElementWithAttributes[];
+  /** Disallowed HTML elements, removed together with their content (MDN compatible) */
+  removeElements?: SanitizerElement[];
+  /** Elements replaced with their children even when allowed (MDN compatible) */
+  replaceWithChildrenElements?: SanitizerElement[];
   /** Allowed HTML elements (legacy support) */
   allowedElements?: string[];
   /** Disallowed HTML elements (legacy support) */
   disallowedElements?: string[];
-  /** Allowed HTML attributes */
+  /** Allowed attributes on every element; all other attributes are removed (MDN compatible) */
+  attributes?: SanitizerAttribute[];
+  /** Disallowed attributes (MDN compatible) */
+  removeAttributes?: SanitizerAttribute[];
+  /** Allowed HTML attributes on every element; all other attributes are removed */
   allowedAttributes?: string[];
   /** Disallowed HTML attributes */
   disallowedAttributes?: string[];
+  /** Whether to allow every `data-*` attribute (MDN compatible) */
+  dataAttributes?: boolean;
+  /** Whether to remove every event handler (`on*`) attribute, whatever the allowlists say */
+  removeEventHandlers?: boolean;
   /** Allowed protocols for URLs */
   allowedProtocols?: string[];
-  /** Whether to allow data URLs */
+  /** Whether to allow data URLs; they must match `dataUrlPolicy` (or the default policy) */
   allowDataUrls?: boolean;
+  /** Which data URLs are allowed; setting it allows data URLs */
+  dataUrlPolicy?: DataUrlPolicy;
+  /** How links are rewritten: `rel` on links opening new windows, `target`, external links */
+  linkPolicy?: LinkPolicy;
+  /** URL-bearing attributes, by serialized name, and how their values are parsed */
+  urlAttributes?: Record<string, UrlAttributeType>;
+  /** Opt-in profiles allowing inline SVG and MathML with their own allowlists */
+  profiles?: SanitizerProfile[];
+  /** Allowed CSS properties in `style` attributes and sanitized `<style>` elements */
+  allowedStyleProperties?: string[];
+  /** Whether to keep `<style>` elements with sanitized rules instead of removing them */
+  sanitizeStyleElements?: boolean;
+  /** Base URL relative URLs are resolved against before their protocol is checked */
+  baseURL?: string;
+  /**
+   * What to do with protocol-relative URLs (`//host/path`):
+   * keep them as is, rewrite them to absolute URLs using the base URL's protocol, or remove them
+   */
+  protocolRelativeUrls?: "allow" | "resolve" | "block";
+  /** Whether to keep comments (MDN compatible); takes precedence over `stripComments` */
+  comments?: boolean;
   /** Whether to strip comments */
   stripComments?: boolean;
+  /** Parser backend; detected for the environment when unset (DOM in browsers) */
+  backend?: SanitizerBackend;
   /** Whether to strip DOCTYPE declarations */
   stripDoctype?: boolean;
+  /**
+   * Whether to sanitize the output a second time and return an empty string when the
+   * second pass changes it, i.e. when the output would mutate once parsed again
+   */
+  verifyRoundTrip?: boolean;
+  /**
+   * Whether setHTML() and setHTMLUnsafe() hand the input to the browser's Sanitizer API
+   * when there is one, as they always do without a sanitizer or with `"default"`. Natively
+   * only element, attribute, comment and data attribute settings apply (see
+   * toNativeSanitizerConfig()), so this trades the other options for speed
+   */
+  useNativeAPI?: boolean;
+}
+
+/**
+ * Why sanitized output failed round-trip verification
+ */
+export interface RoundTripDiagnostic {
+  /** Output of the first pass */
+  output: string;
+  /** Output of parsing and sanitizing `output` again */
+  reparsed: string;
+  /** Offset of the first difference between the two */
+  offset: number;
+  /** Human-readable description of the difference */
+  message: string;
+}
+
+/**
+ * What sanitizing did to a piece of the input
+ * - remove-element: the element was dropped with its content
+ * - unwrap-element: the element was replaced with its children
+ * - remove-attribute: the attribute was dropped
+ * - rewrite-url: a URL was neutralized to `#` (or dropped from `srcset`) or resolved
+ * - set-attribute: the attribute was added or its value changed
+ * - remove-css: a CSS declaration or rule was stripped
+ * - remove-comment, remove-doctype: the node was dropped
+ */
+export type SanitizeActionType =
+  | "remove-element"
+  | "unwrap-element"
+  | "remove-attribute"
+  | "set-attribute"
+  | "rewrite-url"
+  | "remove-css"
+  | "remove-comment"
+  | "remove-doctype";
+
+/**
+ * Why an action was taken
+ * - removed: listed in `removeElements`/`removeAttributes` (globally or on the element)
+ * - not-allowed: missing from the allowlist
+ * - replace-with-children: listed in `replaceWithChildrenElements`
+ * - event-handler: an `on*` attribute while `removeEventHandlers` is set
+ * - unsafe-url: the URL failed the protocol or data URL policy
+ * - resolved-url: a protocol-relative URL was made absolute
+ * - css: the CSS property, value or rule is not allowed
+ * - namespace: the element would change namespace when the output is parsed again
+ * - empty: the element had no content
+ * - hook: a hook asked for the removal
+ * - link-policy: `linkPolicy` strips `target` or sets `target`, `rel` or `class`
+ * - comments, doctype: comments or DOCTYPEs are stripped
+ */
+export type SanitizeReason =
+  | "removed"
+  | "not-allowed"
+  | "replace-with-children"
+  | "event-handler"
+  | "unsafe-url"
+  | "resolved-url"
+  | "css"
+  | "namespace"
+  | "empty"
+  | "hook"
+  | "link-policy"
+  | "comments"
+  | "doctype";
+
+/**
+ * Single entry of a sanitization report
+ */
+export interface SanitizeAction {
+  type: SanitizeActionType;
+  reason: SanitizeReason;
+  /** Tag name of the element concerned; absent for comments and DOCTYPEs */
+  tag?: string;
+  /** Attribute concerned, as serialized */
+  attribute?: string;
+  /**
+   * Original value: the attribute value, URL, CSS text or comment text; absent for
+   * attributes that were added
+   */
+  value?: string;
+  /** Offset in the input of the node or attribute concerned, when it came from the input */
+  offset?: number;
+}
+
+/**
+ * Callbacks that customize sanitizing (compare DOMPurify's hooks)
+ * Hooks work on the parsed tree and may modify the nodes they are given. They can remove
+ * content but not allow it: a renamed element or a changed attribute is still checked
+ * against the configuration afterwards.
+ */
+export interface SanitizerHooks {
+  /**
+   * Called for each element before it is checked; return `"remove"` to drop it with its
+   * content or `"unwrap"` to keep only its children
+   */
+  uponSanitizeElement: (element: ElementNode) => "remove" | "unwrap" | undefined;
+  /**
+   * Called for each attribute of a kept element before it is checked; return `"remove"`
+   * to drop it
+   */
+  uponSanitizeAttribute: (attribute: Attribute, element: ElementNode) => "remove" | undefined;
+  /**
+   * Called for each kept element once its attributes and URLs are sanitized
+   * Attributes added here are kept as they are
+   */
+  afterSanitizeAttributes: (element: ElementNode) => void;
+  /** Called with the sanitized tree before it is serialized */
+  afterSanitize: (fragment: FragmentNode) => void;
+}
+
+export type SanitizerHookName = keyof SanitizerHooks;
+
+/**
+ * Result of Sanitizer.sanitizeWithDiagnostics()
+ */
+export interface SanitizeResult {
+  /** Sanitized HTML; empty when round-trip verification failed */
+  html: string;
+  /** Set when `verifyRoundTrip` is enabled and the output changed on reparse */
+  roundTrip?: RoundTripDiagnostic;
+}
+
+/**
+ * Result of Sanitizer.sanitizeWithReport()
+ */
+export interface SanitizeReport extends SanitizeResult {
+  /** Every action taken, in document order */
+  actions: SanitizeAction[];
 }
 
 /**
@@ -52,14 +347,14 @@ export const DEFAULT_SANITIZER_CONFIG: SanitizerConfig = {
     "blockquote",
     "pre",
     "code",
-    "a",
+    { name: "a", attributes: ["target"] },
     "img",
     "table",
     "thead",
     "tbody",
     "tr",
-    "th",
-    "td",
+    { name: "th", attributes: ["colspan", "rowspan"] },
+    { name: "td", attributes: ["colspan", "rowspan"] },
   ],
   removeElements: [
     "script",
@@ -119,20 +414,7 @@ export const DEFAULT_SANITIZER_CONFIG: SanitizerConfig = {
     "select",
     "option",
   ],
-  allowedAttributes: [
-    "href",
-    "src",
-    "alt",
-    "title",
-    "class",
-    "id",
-    "style",
-    "width",
-    "height",
-    "colspan",
-    "rowspan",
-    "target",
-  ],
+  allowedAttributes: ["href", "src", "alt", "title", "class", "id", "style", "width", "height"],
   disallowedAttributes: [
     "onclick",
     "onload",
@@ -144,202 +426,1169 @@ export const DEFAULT_SANITIZER_CONFIG: SanitizerConfig = {
     "onchange",
     "onsubmit",
   ],
+  removeEventHandlers: true,
   allowedProtocols: ["http:", "https:", "mailto:", "tel:"],
   allowDataUrls: false,
+  urlAttributes: DEFAULT_URL_ATTRIBUTES,
+  allowedStyleProperties: DEFAULT_STYLE_PROPERTIES,
+  sanitizeStyleElements: false,
+  protocolRelativeUrls: "allow",
+  linkPolicy: { rel: ["noopener", "noreferrer"], target: "keep" },
   stripComments: true,
   stripDoctype: true,
+  verifyRoundTrip: false,
+  useNativeAPI: false,
 };
 
+/**
+ * Elements removeUnsafe() always drops, whatever the configuration
+ */
+const UNSAFE_ELEMENTS = ["script", "style", "iframe", "object", "embed"];
+
+/**
+ * URL-bearing attributes removeUnsafe() checks, whatever the configuration
+ */
+const UNSAFE_URL_ATTRIBUTES = new Map(Object.entries(DEFAULT_URL_ATTRIBUTES));
+
+/**
+ * URL schemes removeUnsafe() always neutralizes, whatever the configuration
+ */
+const UNSAFE_URL_SCHEMES = ["javascript:", "vbscript:", "data:"];
+
+/**
+ * SVG animation elements, which can set another attribute of their target after sanitizing
+ */
+const SVG_ANIMATION_ELEMENTS = ["animate", "animateMotion", "animateTransform", "set"];
+
+/**
+ * Attributes removeUnsafe() never lets an SVG animation target, as they would bypass URL checks
+ */
+const UNSAFE_ANIMATION_TARGETS = ["href", "xlink:href"];
+
+/**
+ * Attributes of declarative shadow roots, kept only when listed in `attributes` (globally
+ * or for the element); removal lists and `removeUnsafe()` alone never let them through
+ */
+const SHADOW_ROOT_ATTRIBUTES = new Set([
+  "shadowrootmode",
+  "shadowrootdelegatesfocus",
+  "shadowrootclonable",
+  "shadowrootserializable",
+]);
+
+/**
+ * Check if an attribute is an event handler content attribute (`on*`)
+ * Case and surrounding whitespace are ignored so `OnClick` or ` onclick` are caught too
+ */
+function isEventHandlerAttribute(attributeName: string): boolean {
+  return attributeName.trim().toLowerCase().startsWith("on");
+}
+
+/**
+ * Check if an attribute makes an SVG animation element rewrite a link of its target
+ */
+function isUnsafeAnimationTarget(attr: Attribute, element: ElementNode): boolean {
+  return (
+    element.namespace === SVG_NAMESPACE &&
+    SVG_ANIMATION_ELEMENTS.includes(element.tagName) &&
+    attr.name === "attributeName" &&
+    !attr.namespace &&
+    UNSAFE_ANIMATION_TARGETS.includes(attr.value.trim())
+  );
+}
+
+/**
+ * Check if an attribute is a custom data attribute (`data-*` without a namespace)
+ */
+function isDataAttribute(attribute: SanitizerAttributeNamespace): boolean {
+  return !attribute.namespace && /^data-./.test(attribute.name.trim().toLowerCase());
+}
+
+/**
+ * Name of an element or attribute entry, without its namespace
+ */
+function entryName(entry: SanitizerElement | SanitizerAttribute): string {
+  return typeof entry === "string" ? entry : entry.name;
+}
+
+/**
+ * Lookup key for an element entry; entries without a namespace are HTML elements
+ * HTML element names compare case-insensitively, foreign ones (e.g. `foreignObject`) exactly
+ */
+function elementKey(entry: SanitizerElement): string {
+  const { name, namespace = HTML_NAMESPACE } = typeof entry === "string" ? { name: entry } : entry;
+  const localName = namespace === HTML_NAMESPACE ? name.trim().toLowerCase() : name.trim();
+  return namespace ? `{${namespace}}${localName}` : localName;
+}
+
+/**
+ * Lookup key for an attribute entry; entries without a namespace have no namespace
+ */
+function attributeKey(entry: SanitizerAttribute): string {
+  const { name, namespace = null } = typeof entry === "string" ? { name: entry } : entry;
+  const localName = name.trim().toLowerCase();
+  return namespace ? `{${namespace}}${localName}` : localName;
+}
+
+/**
+ * Throw a TypeError when two lists of a configuration share an entry
+ * The native Sanitizer API rejects such configurations instead of picking a winner
+ */
+function assertDisjoint<T extends SanitizerElement | SanitizerAttribute>(
+  first: T[] | undefined,
+  second: T[] | undefined,
+  key: (entry: T) => string,
+  description: string
+): void {
+  if (!first || !second) {
+    return;
+  }
+  const keys = new Set(first.map(key));
+  const shared = second.find((entry) => keys.has(key(entry)));
+  if (shared !== undefined) {
+    throw new TypeError(`Sanitizer config ${description} must not overlap: "${entryName(shared)}"`);
+  }
+}
+
+/**
+ * List with the entry added, or the same list when it already has an entry with the same key
+ */
+function withEntry<T extends SanitizerElement | SanitizerAttribute>(
+  list: T[] | undefined,
+  entry: T,
+  key: (entry: T) => string
+): T[] {
+  const entryKey = key(entry);
+  if (list?.some((existing) => key(existing) === entryKey)) {
+    return list;
+  }
+  return [...(list ?? []), entry];
+}
+
+/**
+ * List without entries matching the key, or the same list when there are none
+ */
+function withoutEntry<T extends SanitizerElement | SanitizerAttribute>(
+  list: T[] | undefined,
+  entryKey: string,
+  key: (entry: T) => string
+): T[] | undefined {
+  if (!list?.some((entry) => key(entry) === entryKey)) {
+    return list;
+  }
+  return list.filter((entry) => key(entry) !== entryKey);
+}
+
+/**
+ * Copy an attribute list so callers cannot change a sanitizer's configuration
+ */
+function cloneAttributes(list: SanitizerAttribute[] | undefined): SanitizerAttribute[] | undefined {
+  return list?.map((entry) => (typeof entry === "string" ? entry : { ...entry }));
+}
+
+/**
+ * Copy an element entry, including its per-element attribute lists
+ */
+function cloneElement(entry: SanitizerElementWithAttributes): SanitizerElementWithAttributes {
+  if (typeof entry === "string") {
+    return entry;
+  }
+  const clone: SanitizerElementConfig = { ...entry };
+  if (entry.attributes) {
+    clone.attributes = cloneAttributes(entry.attributes);
+  }
+  if (entry.removeAttributes) {
+    clone.removeAttributes = cloneAttributes(entry.removeAttributes);
+  }
+  return clone;
+}
+
+/**
+ * Attribute lists of a per-element rule, resolved to lookup keys
+ */
+interface ElementAttributeRules {
+  attributes?: Set<string>;
+  removeAttributes?: Set<string>;
+}
+
+/**
+ * What to do with a node visited by filterTree()
+ * - keep: keep the node and visit its children
+ * - remove: drop the node together with its subtree
+ * - unwrap: visit the children, then replace the node with them
+ */
+type FilterAction = "keep" | "remove" | "unwrap";
+
+/**
+ * Node whose children filterTree() is visiting, with the children it keeps so far
+ */
+interface FilterFrame {
+  parent: ParentNode;
+  /** Action the visitor chose for `parent` itself */
+  action: FilterAction;
+  children: ChildNode[];
+  index: number;
+  kept: ChildNode[];
+}
+
+/**
+ * Walk a node tree depth-first, applying the visitor's action to every node
+ * The walk is iterative and rebuilds each list of children once, so deep or wide trees
+ * cannot overflow the call stack or take quadratic time
+ */
+function filterTree(root: ParentNode, visit: (node: ChildNode) => FilterAction): void {
+  const frame = (parent: ParentNode, action: FilterAction): FilterFrame => ({
+    parent,
+    action,
+    children: [...childNodesOf(parent)],
+    index: 0,
+    kept: [],
+  });
+  const stack = [frame(root, "keep")];
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    if (current.index < current.children.length) {
+      const child = current.children[current.index++];
+      const action = visit(child);
+      if (action === "remove") {
+        child.parent = null;
+      } else if (child.type === "element") {
+        stack.push(frame(child, action));
+      } else {
+        current.kept.push(child);
+      }
+      continue;
+    }
+
+    // All children visited: store the kept ones, or move them up when unwrapping
+    stack.pop();
+    const container = containerOf(current.parent);
+    const parentFrame = stack[stack.length - 1];
+    if (parentFrame && current.action === "unwrap") {
+      const target = containerOf(parentFrame.parent);
+      for (const child of current.kept) {
+        child.parent = target;
+        parentFrame.kept.push(child);
+      }
+      container.children = [];
+      (current.parent as ElementNode).parent = null;
+    } else {
+      container.children = current.kept;
+      parentFrame?.kept.push(current.parent as ElementNode);
+    }
+  }
+}
+
+/**
+ * Describe where a second sanitizing pass changed the output, or return null when it did not
+ */
+function diffRoundTrip(output: string, reparsed: string): RoundTripDiagnostic | null {
+  if (output === reparsed) {
+    return null;
+  }
+
+  let offset = 0;
+  while (offset < output.length && output[offset] === reparsed[offset]) {
+    offset++;
+  }
+  const excerpt = (html: string) =>
+    JSON.stringify(html.slice(Math.max(0, offset - 20), offset + 20));
+  return {
+    output,
+    reparsed,
+    offset,
+    message:
+      `Sanitized output changes when parsed again, at offset ${offset}: ` +
+      `${excerpt(output)} became ${excerpt(reparsed)}`,
+  };
+}
+
 /**
  * HTML Sanitizer class
  */
 export class Sanitizer {
   private config: SanitizerConfig;
+  private allowedElementKeys: Set<string> | null = null;
+  private removedElementKeys = new Set<string>();
+  private replacedElementKeys = new Set<string>();
+  private allowedAttributeKeys: Set<string> | null = null;
+  private removedAttributeKeys = new Set<string>();
+  private elementRules = new Map<string, ElementAttributeRules>();
+  private urlAttributeTypes = new Map<string, UrlAttributeType>();
+  private detectedBackend: SanitizerBackend | null = null;
+  /** Sanitizer this one was tightened from, applied to its output */
+  private outer: Sanitizer | null = null;
+  /** Actions of the sanitizeWithReport() call in progress, if any */
+  private actions: SanitizeAction[] | null = null;
+  private hooks: { [K in SanitizerHookName]: SanitizerHooks[K][] } = {
+    uponSanitizeElement: [],
+    uponSanitizeAttribute: [],
+    afterSanitizeAttributes: [],
+    afterSanitize: [],
+  };
 
   constructor(config: SanitizerConfig = DEFAULT_SANITIZER_CONFIG) {
-    this.config = { ...DEFAULT_SANITIZER_CONFIG };
-    this.normalizeConfig();
-    // Apply user config after normalization, but preserve user's disallowedElements and removeElements
-    const userDisallowedElements = config.disallowedElements;
-    const userRemoveElements = config.removeElements;
-    this.config = { ...this.config, ...config };
-    if (userDisallowedElements) {
-      this.config.disallowedElements = userDisallowedElements;
+    this.config = { ...DEFAULT_SANITIZER_CONFIG, ...config };
+    this.normalizeConfig(config);
+  }
+
+  /**
+   * Normalize configuration to support both MDN-compatible and legacy formats
+   * Lists the user provided win over the defaults; MDN names win over legacy ones.
+   * Throws a TypeError when the provided lists overlap, like the native API
+   */
+  private normalizeConfig(config: SanitizerConfig): void {
+    const elements = config.elements ?? config.allowedElements;
+    const removeElements = config.removeElements ?? config.disallowedElements;
+    const replaceWithChildrenElements = config.replaceWithChildrenElements;
+    const attributes = config.attributes ?? config.allowedAttributes;
+    const removeAttributes = config.removeAttributes ?? config.disallowedAttributes;
+
+    if (config.baseURL !== undefined && classifyUrl(config.baseURL) !== "absolute") {
+      throw new TypeError(`Sanitizer config baseURL must be an absolute URL: "${config.baseURL}"`);
     }
-    if (userRemoveElements) {
-      this.config.disallowedElements = userRemoveElements;
+
+    assertDisjoint(elements, removeElements, elementKey, "elements and removeElements");
+    assertDisjoint(
+      elements,
+      replaceWithChildrenElements,
+      elementKey,
+      "elements and replaceWithChildrenElements"
+    );
+    assertDisjoint(
+      removeElements,
+      replaceWithChildrenElements,
+      elementKey,
+      "removeElements and replaceWithChildrenElements"
+    );
+    assertDisjoint(attributes, removeAttributes, attributeKey, "attributes and removeAttributes");
+    for (const entry of elements ?? []) {
+      if (typeof entry !== "string") {
+        assertDisjoint(
+          entry.attributes,
+          entry.removeAttributes,
+          attributeKey,
+          `attributes and removeAttributes of <${entry.name}>`
+        );
+      }
     }
+
+    this.config.elements = elements ?? this.config.elements ?? this.config.allowedElements;
+    this.config.removeElements =
+      removeElements ?? this.config.removeElements ?? this.config.disallowedElements;
+    this.config.attributes = attributes ?? this.config.attributes ?? this.config.allowedAttributes;
+    this.config.removeAttributes =
+      removeAttributes ?? this.config.removeAttributes ?? this.config.disallowedAttributes;
+    this.config.comments = config.comments ?? !this.config.stripComments;
+    this.updateConfig();
   }
 
   /**
-   * Normalize configuration to support both MDN-compatible and legacy formats
+   * Mirror the MDN lists into their legacy names and rebuild the lookup tables
+   * Runs after every configuration change
    */
-  private normalizeConfig(): void {
-    // Support MDN-compatible format
-    if (this.config.elements) {
-      this.config.allowedElements = this.config.elements;
+  private updateConfig(): void {
+    const { elements, removeElements, replaceWithChildrenElements, attributes, removeAttributes } =
+      this.config;
+
+    this.config.allowedElements = elements?.map(entryName);
+    this.config.disallowedElements = removeElements?.map(entryName);
+    this.config.allowedAttributes = attributes?.map(entryName);
+    this.config.disallowedAttributes = removeAttributes?.map(entryName);
+    this.config.stripComments = !this.config.comments;
+
+    // Profiles add their foreign elements; the user's own lists take precedence
+    const profiles = (this.config.profiles ?? []).map((name) => SANITIZER_PROFILES[name]);
+    const allowed = [...profiles.flatMap((profile) => profile.elements), ...(elements ?? [])];
+    const userAllowedKeys = new Set((elements ?? []).map(elementKey));
+    const removed = [
+      ...profiles
+        .flatMap((profile) => profile.removeElements)
+        .filter((entry) => !userAllowedKeys.has(elementKey(entry))),
+      ...(removeElements ?? []),
+    ];
+
+    this.allowedElementKeys = elements ? new Set(allowed.map(elementKey)) : null;
+    this.removedElementKeys = new Set(removed.map(elementKey));
+    this.replacedElementKeys = new Set((replaceWithChildrenElements ?? []).map(elementKey));
+    this.allowedAttributeKeys = attributes ? new Set(attributes.map(attributeKey)) : null;
+    this.removedAttributeKeys = new Set((removeAttributes ?? []).map(attributeKey));
+
+    this.urlAttributeTypes = new Map(
+      Object.entries(this.config.urlAttributes ?? {}).map(([name, type]) => [
+        name.toLowerCase(),
+        type,
+      ])
+    );
+
+    this.elementRules.clear();
+    for (const entry of allowed) {
+      if (typeof entry !== "string") {
+        this.elementRules.set(elementKey(entry), {
+          attributes: entry.attributes && new Set(entry.attributes.map(attributeKey)),
+          removeAttributes:
+            entry.removeAttributes && new Set(entry.removeAttributes.map(attributeKey)),
+        });
+      }
     }
-    if (this.config.removeElements) {
-      this.config.disallowedElements = this.config.removeElements;
+  }
+
+  /**
+   * Apply configuration changes, returning whether anything changed
+   */
+  private update(changes: SanitizerConfig): boolean {
+    const keys = Object.keys(changes) as (keyof SanitizerConfig)[];
+    if (!keys.some((key) => changes[key] !== this.config[key])) {
+      return false;
     }
+    Object.assign(this.config, changes);
+    this.updateConfig();
+    return true;
+  }
 
-    // If user provided disallowedElements directly, use it
-    if (this.config.disallowedElements && this.config.disallowedElements.length > 0) {
-      // Keep user's disallowedElements
+  /**
+   * Get a copy of the normalized configuration (Sanitizer.get() compatible)
+   */
+  get(): SanitizerConfig {
+    return {
+      ...this.config,
+      elements: this.config.elements?.map(cloneElement),
+      removeElements: this.config.removeElements?.map(cloneElement),
+      replaceWithChildrenElements: this.config.replaceWithChildrenElements?.map(cloneElement),
+      allowedElements: this.config.allowedElements?.slice(),
+      disallowedElements: this.config.disallowedElements?.slice(),
+      attributes: cloneAttributes(this.config.attributes),
+      removeAttributes: cloneAttributes(this.config.removeAttributes),
+      allowedAttributes: this.config.allowedAttributes?.slice(),
+      disallowedAttributes: this.config.disallowedAttributes?.slice(),
+      allowedProtocols: this.config.allowedProtocols?.slice(),
+      allowedStyleProperties: this.config.allowedStyleProperties?.slice(),
+      profiles: this.config.profiles?.slice(),
+      dataUrlPolicy: this.config.dataUrlPolicy && {
+        ...this.config.dataUrlPolicy,
+        mimeTypes: this.config.dataUrlPolicy.mimeTypes.slice(),
+        targets: this.config.dataUrlPolicy.targets?.slice(),
+      },
+      linkPolicy: this.config.linkPolicy && {
+        ...this.config.linkPolicy,
+        rel: this.config.linkPolicy.rel?.slice(),
+        internalHosts: this.config.linkPolicy.internalHosts?.slice(),
+        externalRel: this.config.linkPolicy.externalRel?.slice(),
+      },
+      urlAttributes: this.config.urlAttributes && { ...this.config.urlAttributes },
+    };
+  }
+
+  /**
+   * Allow an element, optionally with per-element attributes (Sanitizer.allowElement() compatible)
+   * The element is taken off the remove and replace-with-children lists.
+   * Returns whether the configuration changed
+   */
+  allowElement(element: SanitizerElementWithAttributes): boolean {
+    if (typeof element !== "string") {
+      assertDisjoint(
+        element.attributes,
+        element.removeAttributes,
+        attributeKey,
+        `attributes and removeAttributes of <${element.name}>`
+      );
     }
+    const key = elementKey(element);
+    const { elements } = this.config;
+    return this.update({
+      // Without an allowlist every element is allowed already
+      elements:
+        elements && !elements.includes(element)
+          ? elements.filter((entry) => elementKey(entry) !== key).concat(element)
+          : elements,
+      removeElements: withoutEntry(this.config.removeElements, key, elementKey),
+      replaceWithChildrenElements: withoutEntry(
+        this.config.replaceWithChildrenElements,
+        key,
+        elementKey
+      ),
+    });
+  }
+
+  /**
+   * Remove an element together with its content (Sanitizer.removeElement() compatible)
+   * Returns whether the configuration changed
+   */
+  removeElement(element: SanitizerElement): boolean {
+    const key = elementKey(element);
+    return this.update({
+      elements: withoutEntry(this.config.elements, key, elementKey),
+      removeElements: withEntry(this.config.removeElements, element, elementKey),
+      replaceWithChildrenElements: withoutEntry(
+        this.config.replaceWithChildrenElements,
+        key,
+        elementKey
+      ),
+    });
+  }
+
+  /**
+   * Replace an element with its children (Sanitizer.replaceElementWithChildren() compatible)
+   * Returns whether the configuration changed
+   */
+  replaceElementWithChildren(element: SanitizerElement): boolean {
+    const key = elementKey(element);
+    return this.update({
+      elements: withoutEntry(this.config.elements, key, elementKey),
+      removeElements: withoutEntry(this.config.removeElements, key, elementKey),
+      replaceWithChildrenElements: withEntry(
+        this.config.replaceWithChildrenElements,
+        element,
+        elementKey
+      ),
+    });
+  }
+
+  /**
+   * Allow an attribute on every element (Sanitizer.allowAttribute() compatible)
+   * Event handlers stay blocked while `removeEventHandlers` is set.
+   * Returns whether the configuration changed
+   */
+  allowAttribute(attribute: SanitizerAttribute): boolean {
+    const { attributes } = this.config;
+    return this.update({
+      // Without an allowlist every attribute is allowed already
+      attributes: attributes && withEntry(attributes, attribute, attributeKey),
+      removeAttributes: withoutEntry(
+        this.config.removeAttributes,
+        attributeKey(attribute),
+        attributeKey
+      ),
+    });
+  }
+
+  /**
+   * Remove an attribute from every element (Sanitizer.removeAttribute() compatible)
+   * Returns whether the configuration changed
+   */
+  removeAttribute(attribute: SanitizerAttribute): boolean {
+    return this.update({
+      attributes: withoutEntry(this.config.attributes, attributeKey(attribute), attributeKey),
+      removeAttributes: withEntry(this.config.removeAttributes, attribute, attributeKey),
+    });
+  }
+
+  /**
+   * Set whether comments are kept (Sanitizer.setComments() compatible)
+   * Returns whether the configuration changed
+   */
+  setComments(allow: boolean): boolean {
+    return this.update({ comments: allow });
+  }
+
+  /**
+   * Set whether every `data-*` attribute is allowed (Sanitizer.setDataAttributes() compatible)
+   * Returns whether the configuration changed
+   */
+  setDataAttributes(allow: boolean): boolean {
+    return this.update({ dataAttributes: allow });
+  }
+
+  /**
+   * Add a hook, run by sanitize() and removeUnsafe() (and everything built on them)
+   */
+  addHook<K extends SanitizerHookName>(name: K, hook: SanitizerHooks[K]): void {
+    this.hooks[name].push(hook);
+  }
+
+  /**
+   * Remove a hook, or every hook of that name when none is given
+   * Returns whether any hook was removed
+   */
+  removeHook<K extends SanitizerHookName>(name: K, hook?: SanitizerHooks[K]): boolean {
+    const hooks: SanitizerHooks[K][] = this.hooks[name];
+    const kept = hook ? hooks.filter((entry) => entry !== hook) : [];
+    const changed = kept.length !== hooks.length;
+    hooks.splice(0, hooks.length, ...kept);
+    return changed;
+  }
+
+  /**
+   * Run the uponSanitizeElement hooks; returns the first removal any of them asks for
+   */
+  private elementHookAction(element: ElementNode): "remove" | "unwrap" | undefined {
+    for (const hook of this.hooks.uponSanitizeElement) {
+      const action = hook(element);
+      if (action) {
+        return action;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Run the uponSanitizeAttribute hooks; returns whether one of them removes the attribute
+   */
+  private attributeHookRemoves(attribute: Attribute, element: ElementNode): boolean {
+    return this.hooks.uponSanitizeAttribute.some((hook) => hook(attribute, element) === "remove");
   }
 
   /**
    * Sanitize HTML string
+   * The input is parsed into a node tree the same way a browser would parse it,
+   * filtered, and serialized back so the output matches what actually renders
    */
   sanitize(html: string): string {
+    return this.sanitizeWithDiagnostics(html).html;
+  }
+
+  /**
+   * Sanitize HTML string, explaining why the output was dropped when `verifyRoundTrip`
+   * is enabled and the output does not survive being parsed again
+   */
+  sanitizeWithDiagnostics(html: string): SanitizeResult {
     if (!html || typeof html !== "string") {
-      return "";
+      return { html: "" };
     }
 
-    let sanitized = html;
-
-    // Strip DOCTYPE if configured
-    if (this.config.stripDoctype) {
-      sanitized = sanitized.replace(/<!DOCTYPE[^>]*>/gi, "");
+    const output = this.sanitizeOnce(html, true);
+    if (!this.config.verifyRoundTrip) {
+      return this.applyOuter(output);
     }
 
-    // Strip comments if configured
-    if (this.config.stripComments) {
-      sanitized = sanitized.replace(/<!--[\s\S]*?-->/g, "");
-    }
+    // Empty tag cleanup is left out: it would remove elements the first pass emptied.
+    // Only the first pass is reported
+    const actions = this.actions;
+    this.actions = null;
+    const reparsed = this.sanitizeOnce(output, false);
+    this.actions = actions;
 
-    // Remove disallowed elements (including content)
-    if (this.config.disallowedElements) {
-      this.config.disallowedElements.forEach((tag) => {
-        // Remove opening and closing tags with content
-        const regex = new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, "gi");
-        sanitized = sanitized.replace(regex, "");
-        // Remove self-closing tags
-        const selfClosingRegex = new RegExp(`<${tag}\\b[^>]*\\/?>`, "gi");
-        sanitized = sanitized.replace(selfClosingRegex, "");
-      });
+    const roundTrip = diffRoundTrip(output, reparsed);
+    return roundTrip ? { html: "", roundTrip } : this.applyOuter(output);
+  }
+
+  /**
+   * Pass sanitized output through the sanitizer this one was tightened from, if any
+   * Its actions are added to the report in progress without offsets, which would point
+   * into the output rather than the input
+   */
+  private applyOuter(output: string): SanitizeResult {
+    if (!this.outer) {
+      return { html: output };
+    }
+    if (!this.actions) {
+      return this.outer.sanitizeWithDiagnostics(output);
     }
+    const { actions, ...result } = this.outer.sanitizeWithReport(output);
+    for (const action of actions) {
+      delete action.offset;
+      this.actions.push(action);
+    }
+    return result;
+  }
 
-    // Remove disallowed attributes
-    if (this.config.disallowedAttributes) {
-      this.config.disallowedAttributes.forEach((attr) => {
-        // Match attribute with single quotes
-        const singleQuoteRegex = new RegExp(`\\s+${attr}\\s*=\\s*'[^']*'`, "gi");
-        sanitized = sanitized.replace(singleQuoteRegex, "");
-        // Match attribute with double quotes
-        const doubleQuoteRegex = new RegExp(`\\s+${attr}\\s*=\\s*"[^"]*"`, "gi");
-        sanitized = sanitized.replace(doubleQuoteRegex, "");
-      });
+  /**
+   * Create a sanitizer that applies `config`, then this sanitizer
+   * The result can remove more than this sanitizer but never keep anything it removes.
+   * `config` is a full configuration: options it leaves out take their defaults
+   */
+  tighten(config: SanitizerConfig): Sanitizer {
+    const sanitizer = new Sanitizer(config);
+    sanitizer.outer = this;
+    return sanitizer;
+  }
+
+  /**
+   * Sanitize HTML string, recording every element, attribute, URL, CSS and comment
+   * that was removed or changed, with the reason and its offset in the input
+   */
+  sanitizeWithReport(html: string): SanitizeReport {
+    const actions: SanitizeAction[] = [];
+    this.actions = actions;
+    try {
+      return { ...this.sanitizeWithDiagnostics(html), actions };
+    } finally {
+      this.actions = null;
     }
+  }
+
+  /**
+   * Add an action to the report in progress
+   */
+  private record(action: SanitizeAction): void {
+    this.actions?.push(action);
+  }
 
-    // Validate URLs in href and src attributes
-    sanitized = this.sanitizeUrls(sanitized);
+  /**
+   * Sanitize HTML into a DOM fragment that can be inserted without parsing it again
+   * Declarative shadow roots that survive sanitizing are attached to their hosts.
+   * `verifyRoundTrip` does not apply, as nothing is reparsed
+   */
+  sanitizeToFragment(html: string, document: Document): DocumentFragment {
+    const fragment = this.sanitizeToTree(html);
+    attachDeclarativeShadowRoots(fragment);
+    return toDOMFragment(fragment, document);
+  }
 
-    // Clean up any empty tags
-    sanitized = this.cleanupEmptyTags(sanitized);
+  /**
+   * Sanitize HTML into a node tree, for server-side code that keeps working on the tree
+   * `verifyRoundTrip` does not apply, as nothing is reparsed
+   */
+  sanitizeToTree(html: string): FragmentNode {
+    if (this.outer) {
+      const output = typeof html === "string" ? this.sanitizeOnce(html, true) : "";
+      return this.outer.sanitizeToTree(output);
+    }
+    return typeof html === "string" ? this.sanitizeTree(html, true) : createFragment();
+  }
 
-    return sanitized.trim();
+  /**
+   * Backend parsing HTML for this sanitizer: `backend` from the configuration, or the
+   * one detected for the environment
+   */
+  private get backend(): SanitizerBackend {
+    if (this.config.backend) {
+      return this.config.backend;
+    }
+    if (!this.detectedBackend) {
+      this.detectedBackend = detectBackend();
+    }
+    return this.detectedBackend;
   }
 
   /**
-   * Sanitize URLs in href and src attributes
+   * Parse, filter and serialize HTML once
    */
-  private sanitizeUrls(html: string): string {
-    // Handle single quotes
-    html = html.replace(/(href|src)\s*=\s*'([^']+)'/gi, (match, attr, url) => {
-      try {
-        const urlObj = new URL(url);
+  private sanitizeOnce(html: string, cleanupEmptyTags: boolean): string {
+    return serializeChildren(this.sanitizeTree(html, cleanupEmptyTags)).trim();
+  }
 
-        // Check if protocol is allowed
-        if (
-          this.config.allowedProtocols &&
-          !this.config.allowedProtocols.includes(urlObj.protocol)
-        ) {
-          return `${attr}="#"`;
-        }
+  /**
+   * Parse and filter HTML into a node tree
+   */
+  private sanitizeTree(html: string, cleanupEmptyTags: boolean): FragmentNode {
+    const fragment = this.backend.parseFragment(html);
+
+    filterTree(fragment, (node) => {
+      switch (node.type) {
+        case "comment":
+          if (!this.config.stripComments) {
+            return "keep";
+          }
+          this.record({
+            type: "remove-comment",
+            reason: "comments",
+            value: node.value,
+            offset: node.sourceOffset,
+          });
+          return "remove";
+        case "doctype":
+          // The fragment parser already drops DOCTYPEs; kept for completeness
+          if (!this.config.stripDoctype) {
+            return "keep";
+          }
+          this.record({ type: "remove-doctype", reason: "doctype", offset: node.sourceOffset });
+          return "remove";
+        case "text":
+          return "keep";
+      }
+
+      const hookAction = this.elementHookAction(node);
+      if (hookAction) {
+        this.record({
+          type: hookAction === "remove" ? "remove-element" : "unwrap-element",
+          reason: "hook",
+          tag: node.tagName,
+          offset: node.sourceOffset,
+        });
+        return hookAction;
+      }
 
-        // Check data URLs
-        if (urlObj.protocol === "data:" && !this.config.allowDataUrls) {
-          return `${attr}="#"`;
+      // Hooks may have renamed the element
+      const key = elementKey({ name: node.tagName, namespace: node.namespace });
+      const tag = node.tagName;
+      const offset = node.sourceOffset;
+
+      if (this.config.sanitizeStyleElements && key === elementKey("style")) {
+        // Keep style sheets, with their rules sanitized
+        this.sanitizeStyleElement(node);
+      } else if (this.removedElementKeys.has(key)) {
+        // Remove disallowed elements (including content)
+        this.record({ type: "remove-element", reason: "removed", tag, offset });
+        return "remove";
+      } else if (!this.allowsElement(key)) {
+        // Unwrap elements missing from the allowlist, keeping their content
+        const reason = this.replacedElementKeys.has(key) ? "replace-with-children" : "not-allowed";
+        this.record({ type: "unwrap-element", reason, tag, offset });
+        return "unwrap";
+      }
+
+      // Remove attributes that are not allowed on this element
+      node.attributes = node.attributes.filter((attr) => {
+        const reason = this.attributeHookRemoves(attr, node)
+          ? "hook"
+          : this.attributeRemovalReason(
+              {
+                // Namespaced attributes are serialized with their prefix (`xlink:href`)
+                name: attr.namespace ? attr.name.slice(attr.name.indexOf(":") + 1) : attr.name,
+                namespace: attr.namespace ?? null,
+              },
+              key
+            );
+        if (reason) {
+          this.record({
+            type: "remove-attribute",
+            reason,
+            tag,
+            attribute: attr.name,
+            value: attr.value,
+            offset: attr.sourceOffset,
+          });
         }
+        return reason === null;
+      });
 
-        return match;
-      } catch {
-        // Invalid URL, replace with safe default
-        return `${attr}="#"`;
+      // Validate URLs in URL-bearing attributes and in styles
+      this.sanitizeUrls(node);
+      this.sanitizeStyleAttribute(node);
+      this.applyLinkPolicy(node);
+
+      for (const hook of this.hooks.afterSanitizeAttributes) {
+        hook(node);
       }
+      return "keep";
     });
 
-    // Handle double quotes
-    html = html.replace(/(href|src)\s*=\s*"([^"]+)"/gi, (match, attr, url) => {
-      try {
-        const urlObj = new URL(url);
-
-        // Check if protocol is allowed
-        if (
-          this.config.allowedProtocols &&
-          !this.config.allowedProtocols.includes(urlObj.protocol)
-        ) {
-          return `${attr}="#"`;
-        }
+    for (const hook of this.hooks.afterSanitize) {
+      hook(fragment);
+    }
 
-        // Check data URLs
-        if (urlObj.protocol === "data:" && !this.config.allowDataUrls) {
-          return `${attr}="#"`;
-        }
+    this.removeInvalidNamespaces(fragment);
+
+    // Clean up any empty tags
+    if (cleanupEmptyTags) {
+      this.cleanupEmptyTags(fragment);
+    }
 
-        return match;
-      } catch {
-        // Invalid URL, replace with safe default
-        return `${attr}="#"`;
+    return fragment;
+  }
+
+  /**
+   * Remove elements whose namespace would change when the output is parsed again
+   */
+  private removeInvalidNamespaces(fragment: FragmentNode): void {
+    filterTree(fragment, (node) => {
+      if (node.type !== "element" || hasValidNamespace(node)) {
+        return "keep";
       }
+      this.record({
+        type: "remove-element",
+        reason: "namespace",
+        tag: node.tagName,
+        offset: node.sourceOffset,
+      });
+      return "remove";
     });
+  }
 
-    return html;
+  /**
+   * Sanitize the URLs of every URL-bearing attribute listed in `urlAttributes`
+   */
+  private sanitizeUrls(element: ElementNode): void {
+    for (const attr of element.attributes) {
+      const type = this.urlAttributeTypes.get(attr.name.toLowerCase());
+      if (type) {
+        const target = `${element.tagName}[${attr.name}]`.toLowerCase();
+        rewriteUrlAttribute(element, attr, type, (url) => {
+          const result = this.sanitizeUrl(url, target);
+          if (result !== url) {
+            this.record({
+              type: "rewrite-url",
+              reason: result === null ? "unsafe-url" : "resolved-url",
+              tag: element.tagName,
+              attribute: attr.name,
+              value: url,
+              offset: attr.sourceOffset,
+            });
+          }
+          return result;
+        });
+      }
+    }
   }
 
   /**
-   * Clean up empty tags
+   * Rewrite `rel`, `target` and `class` of links according to `linkPolicy`
+   */
+  private applyLinkPolicy(element: ElementNode): void {
+    if (!this.config.linkPolicy) {
+      return;
+    }
+    const before = element.attributes.map((attr) => ({ ...attr }));
+    applyLinkPolicy(element, this.config.linkPolicy, this.config.baseURL);
+
+    for (const attr of before) {
+      if (!element.attributes.some((current) => current.name === attr.name)) {
+        this.record({
+          type: "remove-attribute",
+          reason: "link-policy",
+          tag: element.tagName,
+          attribute: attr.name,
+          value: attr.value,
+          offset: attr.sourceOffset,
+        });
+      }
+    }
+    for (const attr of element.attributes) {
+      const original = before.find((previous) => previous.name === attr.name);
+      if (original?.value !== attr.value) {
+        this.record({
+          type: "set-attribute",
+          reason: "link-policy",
+          tag: element.tagName,
+          attribute: attr.name,
+          value: original?.value,
+          offset: original?.sourceOffset,
+        });
+      }
+    }
+  }
+
+  /**
+   * Check a single URL against the protocol and data URL policy
+   * Relative URLs are kept; their protocol is only checked once resolved against `baseURL`.
+   * `target` is the `element[attribute]` the URL appears in.
+   * Returns the URL to keep, or null when it is not allowed
    */
-  private cleanupEmptyTags(html: string): string {
-    // Remove empty tags
-    html = html.replace(/<(\w+)[^>]*>\s*<\/\1>/gi, "");
+  private sanitizeUrl(value: string, target: string): string | null {
+    const kind = classifyUrl(value);
+    if (kind === null) {
+      // Invalid URL
+      return null;
+    }
+
+    let url = value;
+    if (kind === "protocol-relative") {
+      if (this.config.protocolRelativeUrls === "block") {
+        return null;
+      }
+      if (this.config.protocolRelativeUrls === "resolve") {
+        url = new URL(url, this.config.baseURL ?? PLACEHOLDER_BASE_URL).href;
+      }
+    } else if (kind === "relative" && !this.config.baseURL) {
+      // Relative URLs keep the protocol of the page they end up on
+      return url;
+    }
 
-    // Remove tags with only whitespace
-    html = html.replace(/<(\w+)[^>]*>\s+<\/\1>/gi, "");
+    const urlObj = new URL(url, this.config.baseURL ?? PLACEHOLDER_BASE_URL);
+
+    // Check data URLs against the data URL policy
+    if (urlObj.protocol === "data:") {
+      return this.isDataUrlAllowed(urlObj, target) ? url : null;
+    }
 
-    return html;
+    // Check if protocol is allowed
+    if (this.config.allowedProtocols && !this.config.allowedProtocols.includes(urlObj.protocol)) {
+      return null;
+    }
+    return url;
   }
 
   /**
-   * Check if an element is allowed
+   * Check a data URL against `dataUrlPolicy`
+   * Without a policy data URLs are only allowed when `allowDataUrls` is set, using the default one
    */
-  isElementAllowed(tagName: string): boolean {
-    if (this.config.disallowedElements?.includes(tagName.toLowerCase())) {
+  private isDataUrlAllowed(url: URL, target: string): boolean {
+    const policy =
+      this.config.dataUrlPolicy ?? (this.config.allowDataUrls ? DEFAULT_DATA_URL_POLICY : null);
+    if (!policy) {
       return false;
     }
 
-    if (this.config.allowedElements) {
-      return this.config.allowedElements.includes(tagName.toLowerCase());
+    const targets = policy.targets ?? ["img[src]"];
+    if (!targets.some((entry) => entry.toLowerCase() === target)) {
+      return false;
     }
 
-    return true;
+    const info = parseDataUrl(url);
+    return (
+      info !== null &&
+      policy.mimeTypes.some((mimeType) => mimeType.toLowerCase() === info.mimeType) &&
+      (policy.maxSize === undefined || info.size <= policy.maxSize)
+    );
   }
 
   /**
-   * Check if an attribute is allowed
+   * CSS sanitization options for styles found in the given `element[attribute]`
+   * Stripped CSS is reported against the `style` attribute when given, else `element`
    */
-  isAttributeAllowed(attributeName: string): boolean {
-    if (this.config.disallowedAttributes?.includes(attributeName.toLowerCase())) {
+  private cssOptions(target: string, element: ElementNode, style?: Attribute): CssSanitizeOptions {
+    return {
+      allowedProperties: this.config.allowedStyleProperties?.map((name) => name.toLowerCase()),
+      isUrlAllowed: (url) => this.sanitizeUrl(url, target) !== null,
+      onRemove: (css) =>
+        this.record({
+          type: "remove-css",
+          reason: "css",
+          tag: element.tagName,
+          ...(style ? { attribute: style.name } : {}),
+          value: css,
+          offset: style ? style.sourceOffset : element.sourceOffset,
+        }),
+    };
+  }
+
+  /**
+   * Sanitize the declarations of a `style` attribute, dropping the attribute when none are left
+   */
+  private sanitizeStyleAttribute(element: ElementNode): void {
+    const style = element.attributes.find((attr) => attr.name === "style" && !attr.namespace);
+    if (!style) {
+      return;
+    }
+    const target = `${element.tagName}[style]`.toLowerCase();
+    style.value = sanitizeDeclarations(style.value, this.cssOptions(target, element, style));
+    if (style.value === "") {
+      removeAttribute(element, "style");
+    }
+  }
+
+  /**
+   * Replace the contents of a `<style>` element with its sanitized rules
+   * URLs in style sheets are checked against the `style` data URL target
+   */
+  private sanitizeStyleElement(element: ElementNode): void {
+    const source = element.children
+      .map((child) => (child.type === "text" ? child.value : ""))
+      .join("");
+    const rules = sanitizeStylesheet(source, this.cssOptions("style", element));
+    for (const child of [...element.children]) {
+      removeNode(child);
+    }
+    if (rules) {
+      appendChild(element, createText(rules));
+    }
+  }
+
+  /**
+   * Clean up empty tags
+   * Only elements that were empty (or whitespace-only) before cleanup are removed;
+   * parents emptied by this pass are kept
+   */
+  private cleanupEmptyTags(fragment: FragmentNode): void {
+    // Elements are visited before their children, so their parents are checked first
+    filterTree(fragment, (node) => {
+      if (
+        node.type !== "element" ||
+        // SVG and MathML shapes such as <path> and <mspace> are empty by design
+        node.namespace !== HTML_NAMESPACE ||
+        VOID_ELEMENTS.has(node.tagName) ||
+        !childNodesOf(node).every((child) => child.type === "text" && child.value.trim() === "")
+      ) {
+        return "keep";
+      }
+      this.record({
+        type: "remove-element",
+        reason: "empty",
+        tag: node.tagName,
+        offset: node.sourceOffset,
+      });
+      return "remove";
+    });
+  }
+
+  /**
+   * Check if an element is allowed (kept rather than removed or replaced with its children)
+   */
+  isElementAllowed(element: SanitizerElement): boolean {
+    const key = elementKey(element);
+    return (
+      !this.removedElementKeys.has(key) &&
+      this.allowsElement(key) &&
+      (this.outer?.isElementAllowed(element) ?? true)
+    );
+  }
+
+  /**
+   * Check if an attribute is allowed, optionally on a specific element
+   */
+  isAttributeAllowed(attribute: SanitizerAttribute, element?: SanitizerElement): boolean {
+    const reason = this.attributeRemovalReason(
+      typeof attribute === "string" ? { name: attribute } : attribute,
+      element === undefined ? undefined : elementKey(element)
+    );
+    return reason === null && (this.outer?.isAttributeAllowed(attribute, element) ?? true);
+  }
+
+  /**
+   * Check an element lookup key against the replace-with-children list and the allowlist
+   */
+  private allowsElement(key: string): boolean {
+    if (this.replacedElementKeys.has(key)) {
       return false;
     }
+    return this.allowedElementKeys ? this.allowedElementKeys.has(key) : true;
+  }
 
-    if (this.config.allowedAttributes) {
-      return this.config.allowedAttributes.includes(attributeName.toLowerCase());
+  /**
+   * Check an attribute against the configuration, on the element with the given lookup key
+   * Returns why the attribute is removed, or null when it is allowed
+   */
+  private attributeRemovalReason(
+    attribute: SanitizerAttributeNamespace,
+    element?: string
+  ): SanitizeReason | null {
+    if (this.config.removeEventHandlers && isEventHandlerAttribute(attribute.name)) {
+      return "event-handler";
     }
 
-    return true;
+    const key = attributeKey(attribute);
+    if (this.removedAttributeKeys.has(key)) {
+      return "removed";
+    }
+
+    const rule = element ? this.elementRules.get(element) : undefined;
+    if (rule?.removeAttributes?.has(key)) {
+      return "removed";
+    }
+    if (rule?.attributes?.has(key)) {
+      return null;
+    }
+    if (this.isUnlistedShadowRootAttribute(key, element)) {
+      return "not-allowed";
+    }
+
+    if (this.config.dataAttributes && isDataAttribute(attribute)) {
+      return null;
+    }
+
+    if (this.allowedAttributeKeys && !this.allowedAttributeKeys.has(key)) {
+      return "not-allowed";
+    }
+    return null;
+  }
+
+  /**
+   * Check whether an attribute lookup key is a shadow root attribute missing from the
+   * allowlists, globally and for the element with the given lookup key
+   */
+  private isUnlistedShadowRootAttribute(key: string, element?: string): boolean {
+    if (!SHADOW_ROOT_ATTRIBUTES.has(key)) {
+      return false;
+    }
+    const rule = element ? this.elementRules.get(element) : undefined;
+    return !rule?.attributes?.has(key) && !this.allowedAttributeKeys?.has(key);
+  }
+
+  /**
+   * Configuration for the native Sanitizer API closest to this one, or null when the
+   * polyfill has to run it: `useNativeAPI` is off, hooks are set or the sanitizer was tightened
+   */
+  toNativeConfig(): NativeSanitizerConfig | null {
+    if (
+      !this.config.useNativeAPI ||
+      this.outer ||
+      Object.values(this.hooks).some((hooks) => hooks.length > 0)
+    ) {
+      return null;
+    }
+    return toNativeSanitizerConfig(this.config);
   }
 
   /**
@@ -347,49 +1596,90 @@ export class Sanitizer {
    * This method always removes XSS-unsafe content regardless of configuration
    */
   removeUnsafe(html: string): string {
-    let sanitized = html;
-
-    // Always remove script tags and dangerous attributes
-    const unsafeElements = ["script", "style", "iframe", "object", "embed"];
-    const unsafeAttributes = [
-      "onclick",
-      "onload",
-      "onerror",
-      "onmouseover",
-      "onmouseout",
-      "onfocus",
-      "onblur",
-      "onchange",
-      "onsubmit",
-      "onkeydown",
-      "onkeyup",
-    ];
+    if (!html || typeof html !== "string") {
+      return "";
+    }
+    const output = serializeChildren(this.removeUnsafeTree(html)).trim();
+    return this.outer ? this.outer.removeUnsafe(output) : output;
+  }
 
-    // Remove unsafe elements (including content)
-    unsafeElements.forEach((tag) => {
-      // Remove opening and closing tags with content
-      const regex = new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, "gi");
-      sanitized = sanitized.replace(regex, "");
-      // Remove self-closing tags
-      const selfClosingRegex = new RegExp(`<${tag}\\b[^>]*\\/?>`, "gi");
-      sanitized = sanitized.replace(selfClosingRegex, "");
-    });
+  /**
+   * removeUnsafe() into a DOM fragment that can be inserted without parsing it again
+   * Declarative shadow roots that survive are attached to their hosts
+   */
+  removeUnsafeToFragment(html: string, document: Document): DocumentFragment {
+    const fragment = this.removeUnsafeToTree(html);
+    attachDeclarativeShadowRoots(fragment);
+    return toDOMFragment(fragment, document);
+  }
+
+  /**
+   * removeUnsafe() into a node tree, for server-side code that keeps working on the tree
+   */
+  removeUnsafeToTree(html: string): FragmentNode {
+    if (this.outer) {
+      const output = typeof html === "string" ? serializeChildren(this.removeUnsafeTree(html)) : "";
+      return this.outer.removeUnsafeToTree(output);
+    }
+    return typeof html === "string" ? this.removeUnsafeTree(html) : createFragment();
+  }
+
+  /**
+   * Parse HTML and remove unsafe content from the node tree
+   */
+  private removeUnsafeTree(html: string): FragmentNode {
+    const fragment = this.backend.parseFragment(html);
+
+    filterTree(fragment, (node) => {
+      if (node.type !== "element") {
+        return "keep";
+      }
+
+      const hookAction = this.elementHookAction(node);
+      if (hookAction) {
+        return hookAction;
+      }
+
+      // Remove unsafe elements (including content)
+      if (UNSAFE_ELEMENTS.includes(node.tagName.toLowerCase())) {
+        return "remove";
+      }
+
+      // Remove event handler attributes, and shadow root attributes not explicitly allowed
+      const key = elementKey({ name: node.tagName, namespace: node.namespace });
+      node.attributes = node.attributes.filter(
+        (attr) =>
+          !this.attributeHookRemoves(attr, node) &&
+          !isEventHandlerAttribute(attr.name) &&
+          !isUnsafeAnimationTarget(attr, node) &&
+          !this.isUnlistedShadowRootAttribute(attributeKey(attr.name), key)
+      );
 
-    // Remove unsafe attributes
-    unsafeAttributes.forEach((attr) => {
-      // Match attribute with single quotes
-      const singleQuoteRegex = new RegExp(`\\s+${attr}\\s*=\\s*'[^']*'`, "gi");
-      sanitized = sanitized.replace(singleQuoteRegex, "");
-      // Match attribute with double quotes
-      const doubleQuoteRegex = new RegExp(`\\s+${attr}\\s*=\\s*"[^"]*"`, "gi");
-      sanitized = sanitized.replace(doubleQuoteRegex, "");
+      // Sanitize dangerous URLs
+      for (const attr of node.attributes) {
+        const type = UNSAFE_URL_ATTRIBUTES.get(attr.name.toLowerCase());
+        if (type) {
+          // Values are entity-decoded by the parser; the scheme is read like a browser would
+          rewriteUrlAttribute(node, attr, type, (url) =>
+            UNSAFE_URL_SCHEMES.includes(getUrlScheme(url) ?? "") ? null : url
+          );
+        }
+      }
+
+      for (const hook of this.hooks.afterSanitizeAttributes) {
+        hook(node);
+      }
+      return "keep";
     });
 
-    // Sanitize dangerous URLs
-    sanitized = sanitized.replace(/(href|src)\s*=\s*["']javascript:[^"']*["']/gi, '$1="#"');
-    sanitized = sanitized.replace(/(href|src)\s*=\s*["']data:[^"']*["']/gi, '$1="#"');
+    for (const hook of this.hooks.afterSanitize) {
+      hook(fragment);
+    }
+
+    // Unsafe content can hide in elements that change namespace on reparse (mutation XSS)
+    this.removeInvalidNamespaces(fragment);
 
-    return sanitized.trim();
+    return fragment;
   }
 }
 
@@ -415,11 +1705,56 @@ export interface SetHTMLOptions {
   sanitizer?: Sanitizer | SanitizerConfig | "default";
 }
 
+/**
+ * Check whether sanitized nodes can be inserted into an element directly, which avoids
+ * parsing the sanitized markup a second time
+ */
+function canInsertFragment(element: Element | ShadowRoot): boolean {
+  return typeof element.replaceChildren === "function" && !!element.ownerDocument;
+}
+
+/**
+ * Insert HTML with the browser's own Sanitizer API when there is one, for the default
+ * sanitizer or one that opted into it with `useNativeAPI`
+ * Returns false when the polyfill has to do it: no native API, no opt-in, hooks to run, or
+ * a configuration the browser rejects
+ */
+function setNativeHTML(
+  target: Element | ShadowRoot,
+  method: SetHTMLMethod,
+  input: string,
+  options: SetHTMLOptions | undefined,
+  sanitizer: Sanitizer
+): boolean {
+  const native = getNativeMethod(target, method);
+  const isDefault = options?.sanitizer === "default" || !options?.sanitizer;
+  const config = isDefault ? "default" : sanitizer.toNativeConfig();
+  if (!native || config === null) {
+    return false;
+  }
+
+  try {
+    native.call(target, input, {
+      sanitizer: config === "default" ? config : createNativeSanitizer(config),
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof TypeError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
 /**
  * Set HTML content safely (MDN compatible API)
  * This method provides XSS-safe HTML insertion similar to native Element.setHTML()
  */
-export function setHTML(element: HTMLElement, input: string, options?: SetHTMLOptions): void {
+export function setHTML(
+  element: Element | ShadowRoot,
+  input: string,
+  options?: SetHTMLOptions
+): void {
   if (!element || typeof input !== "string") {
     return;
   }
@@ -434,17 +1769,28 @@ export function setHTML(element: HTMLElement, input: string, options?: SetHTMLOp
     sanitizer = new Sanitizer(options.sanitizer);
   }
 
-  // Always apply removeUnsafe() as per MDN spec
-  const sanitizedHTML = sanitizer.removeUnsafe(input);
+  // Prefer the native implementation for the default sanitizer and opted-in ones
+  if (setNativeHTML(element, "setHTML", input, options, sanitizer)) {
+    return;
+  }
 
-  element.innerHTML = sanitizedHTML;
+  // Always apply removeUnsafe() as per MDN spec
+  if (canInsertFragment(element)) {
+    element.replaceChildren(sanitizer.removeUnsafeToFragment(input, element.ownerDocument));
+  } else {
+    element.innerHTML = sanitizer.removeUnsafe(input);
+  }
 }
 
 /**
  * Set HTML content unsafely (MDN compatible API)
  * This method allows potentially unsafe content - use with extreme caution
  */
-export function setHTMLUnsafe(element: HTMLElement, input: string, options?: SetHTMLOptions): void {
+export function setHTMLUnsafe(
+  element: Element | ShadowRoot,
+  input: string,
+  options?: SetHTMLOptions
+): void {
   if (!element || typeof input !== "string") {
     return;
   }
@@ -459,8 +1805,15 @@ export function setHTMLUnsafe(element: HTMLElement, input: string, options?: Set
     sanitizer = new Sanitizer(options.sanitizer);
   }
 
-  // Apply only basic sanitization, allowing more content
-  const sanitizedHTML = sanitizer.sanitize(input);
+  // Prefer the native implementation for the default sanitizer and opted-in ones
+  if (setNativeHTML(element, "setHTMLUnsafe", input, options, sanitizer)) {
+    return;
+  }
 
-  element.innerHTML = sanitizedHTML;
+  // Apply only basic sanitization, allowing more content
+  if (canInsertFragment(element)) {
+    element.replaceChildren(sanitizer.sanitizeToFragment(input, element.ownerDocument));
+  } else {
+    element.innerHTML = sanitizer.sanitize(input);
+  }
 }
@@ -0,0 +1,292 @@
+/**
+ * CSS selector matching over the node tree, for querySelector() on sanitized fragments
+ * Supported: type and universal selectors, `#id`, `.class`, attribute selectors (with an
+ * optional `i` flag), the descendant, `>`, `+` and `~` combinators, and selector lists.
+ * Pseudo-classes and namespace prefixes are not supported.
+ */
+
+import { type ElementNode, HTML_NAMESPACE, type ParentNode } from "./dom";
+
+/**
+ * `[name]`, or `[name op value]` when an operator is given
+ */
+interface AttributeSelector {
+  name: string;
+  operator?: "=" | "~=" | "|=" | "^=" | "$=" | "*=";
+  value?: string;
+  caseInsensitive?: boolean;
+}
+
+/**
+ * Simple selectors applying to a single element
+ */
+interface CompoundSelector {
+  tagName: string | null;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeSelector[];
+}
+
+type Combinator = " " | ">" | "+" | "~";
+
+/**
+ * Compound selectors joined by combinators; `combinators[i]` sits between
+ * `compounds[i]` and `compounds[i + 1]`
+ */
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  combinators: Combinator[];
+}
+
+/**
+ * Identifiers, attribute selectors (`[name]`, `[name op value flag]`) and combinators
+ */
+const IDENTIFIER = /^(?:[-\w\u00a0-\uffff]|\\.)+/;
+const ATTRIBUTE =
+  /^\[\s*((?:[-\w\u00a0-\uffff]|\\.)+)\s*(?:([~|^$*]?=)\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|((?:[-\w\u00a0-\uffff]|\\.)+))\s*([iIsS])?\s*)?\]/;
+const COMBINATOR = /^\s*([>+~])\s*|^\s+/;
+
+/**
+ * Remove backslash escapes from an identifier or string
+ */
+function unescapeSelector(text: string): string {
+  return text.replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Parse a single compound selector at the start of `text`
+ * Returns the selector and the length consumed, or null when nothing matched
+ */
+function parseCompound(text: string): { selector: CompoundSelector; length: number } | null {
+  const selector: CompoundSelector = { tagName: null, ids: [], classes: [], attributes: [] };
+  let position = 0;
+
+  const type = /^(?:\*|(?:[-\w\u00a0-\uffff]|\\.)+)/.exec(text);
+  if (type) {
+    selector.tagName = type[0] === "*" ? null : unescapeSelector(type[0]);
+    position = type[0].length;
+  }
+
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const marker = rest[0];
+    if (marker === "#" || marker === ".") {
+      const name = IDENTIFIER.exec(rest.slice(1));
+      if (!name) {
+        break;
+      }
+      (marker === "#" ? selector.ids : selector.classes).push(unescapeSelector(name[0]));
+      position += 1 + name[0].length;
+    } else if (marker === "[") {
+      const match = ATTRIBUTE.exec(rest);
+      if (!match) {
+        break;
+      }
+      const value = match[3] ?? match[4] ?? match[5];
+      selector.attributes.push({
+        name: unescapeSelector(match[1]),
+        operator: match[2] as AttributeSelector["operator"],
+        value: value === undefined ? undefined : unescapeSelector(value),
+        caseInsensitive: match[6]?.toLowerCase() === "i",
+      });
+      position += match[0].length;
+    } else {
+      break;
+    }
+  }
+
+  return position === 0 ? null : { selector, length: position };
+}
+
+/**
+ * Parse a selector list
+ * Throws a SyntaxError for invalid or unsupported selectors, like the DOM does
+ */
+function parseSelectors(selectors: string): ComplexSelector[] {
+  const list: ComplexSelector[] = [];
+  let text = selectors.trim();
+
+  while (true) {
+    const complex: ComplexSelector = { compounds: [], combinators: [] };
+    while (true) {
+      const compound = parseCompound(text);
+      if (!compound) {
+        throw new SyntaxError(`Invalid or unsupported selector: ${selectors}`);
+      }
+      complex.compounds.push(compound.selector);
+      text = text.slice(compound.length);
+
+      const combinator = COMBINATOR.exec(text);
+      if (!combinator || text.length === combinator[0].length || /^\s*,/.test(text)) {
+        break;
+      }
+      complex.combinators.push((combinator[1] ?? " ") as Combinator);
+      text = text.slice(combinator[0].length);
+    }
+    list.push(complex);
+
+    const separator = /^\s*,\s*/.exec(text);
+    if (!separator) {
+      break;
+    }
+    text = text.slice(separator[0].length);
+  }
+
+  if (text.trim() !== "") {
+    throw new SyntaxError(`Invalid or unsupported selector: ${selectors}`);
+  }
+  return list;
+}
+
+/**
+ * Names compare case-insensitively on HTML elements and exactly on foreign ones
+ */
+function sameName(element: ElementNode, name: string, expected: string): boolean {
+  return element.namespace === HTML_NAMESPACE
+    ? name.toLowerCase() === expected.toLowerCase()
+    : name === expected;
+}
+
+/**
+ * Check an attribute selector against an element
+ */
+function matchesAttribute(element: ElementNode, selector: AttributeSelector): boolean {
+  const attribute = element.attributes.find((attr) => sameName(element, attr.name, selector.name));
+  if (!attribute) {
+    return false;
+  }
+  if (selector.value === undefined) {
+    return true;
+  }
+
+  const actual = selector.caseInsensitive ? attribute.value.toLowerCase() : attribute.value;
+  const expected = selector.caseInsensitive ? selector.value.toLowerCase() : selector.value;
+  switch (selector.operator) {
+    case "~=":
+      return actual.split(/[\t\n\f\r ]+/).includes(expected);
+    case "|=":
+      return actual === expected || actual.startsWith(`${expected}-`);
+    case "^=":
+      return expected !== "" && actual.startsWith(expected);
+    case "$=":
+      return expected !== "" && actual.endsWith(expected);
+    case "*=":
+      return expected !== "" && actual.includes(expected);
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Check a compound selector against an element
+ */
+function matchesCompound(element: ElementNode, selector: CompoundSelector): boolean {
+  if (selector.tagName !== null && !sameName(element, element.tagName, selector.tagName)) {
+    return false;
+  }
+  const id = element.attributes.find((attr) => attr.name === "id")?.value;
+  if (selector.ids.some((expected) => expected !== id)) {
+    return false;
+  }
+  if (selector.classes.length > 0) {
+    const classes = (element.attributes.find((attr) => attr.name === "class")?.value ?? "").split(
+      /[\t\n\f\r ]+/
+    );
+    if (!selector.classes.every((name) => classes.includes(name))) {
+      return false;
+    }
+  }
+  return selector.attributes.every((attribute) => matchesAttribute(element, attribute));
+}
+
+/**
+ * Parent element, or null at the root of the tree
+ */
+function parentElement(element: ElementNode): ElementNode | null {
+  return element.parent?.type === "element" ? element.parent : null;
+}
+
+/**
+ * Element siblings before an element, nearest first
+ */
+function previousSiblings(element: ElementNode): ElementNode[] {
+  const siblings = element.parent?.children ?? [];
+  return siblings
+    .slice(0, siblings.indexOf(element))
+    .filter((node): node is ElementNode => node.type === "element")
+    .reverse();
+}
+
+/**
+ * Match a complex selector right to left, starting at the compound with the given index
+ */
+function matchesComplex(element: ElementNode, selector: ComplexSelector, index: number): boolean {
+  if (!matchesCompound(element, selector.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  switch (selector.combinators[index - 1]) {
+    case ">": {
+      const parent = parentElement(element);
+      return parent !== null && matchesComplex(parent, selector, index - 1);
+    }
+    case "+": {
+      const [previous] = previousSiblings(element);
+      return previous !== undefined && matchesComplex(previous, selector, index - 1);
+    }
+    case "~":
+      return previousSiblings(element).some((sibling) =>
+        matchesComplex(sibling, selector, index - 1)
+      );
+    default:
+      for (let ancestor = parentElement(element); ancestor; ancestor = parentElement(ancestor)) {
+        if (matchesComplex(ancestor, selector, index - 1)) {
+          return true;
+        }
+      }
+      return false;
+  }
+}
+
+/**
+ * Check whether an element matches a selector list
+ */
+export function matches(element: ElementNode, selectors: string): boolean {
+  return parseSelectors(selectors).some((selector) =>
+    matchesComplex(element, selector, selector.compounds.length - 1)
+  );
+}
+
+/**
+ * All descendant elements of a node matching a selector list, in tree order
+ * Like the DOM, template contents and shadow roots are not searched
+ */
+export function querySelectorAll(root: ParentNode, selectors: string): ElementNode[] {
+  const list = parseSelectors(selectors);
+  const result: ElementNode[] = [];
+
+  const visit = (parent: ParentNode) => {
+    for (const node of parent.children) {
+      if (node.type !== "element") {
+        continue;
+      }
+      if (list.some((selector) => matchesComplex(node, selector, selector.compounds.length - 1))) {
+        result.push(node);
+      }
+      visit(node);
+    }
+  };
+  visit(root);
+
+  return result;
+}
+
+/**
+ * First descendant element of a node matching a selector list, or null
+ */
+export function querySelector(root: ParentNode, selectors: string): ElementNode | null {
+  return querySelectorAll(root, selectors)[0] ?? null;
+}
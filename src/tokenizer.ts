@@ -0,0 +1,979 @@
+import type { Attribute } from "./dom";
+import {
+  LEGACY_CHARACTER_REFERENCES,
+  NAMED_CHARACTER_REFERENCES,
+  NUMERIC_REFERENCE_OVERRIDES,
+} from "./entities";
+
+/**
+ * Start tag token
+ */
+export interface StartTagToken {
+  type: "startTag";
+  name: string;
+  attributes: Attribute[];
+  selfClosing: boolean;
+  offset: number;
+}
+
+/**
+ * End tag token
+ */
+export interface EndTagToken {
+  type: "endTag";
+  name: string;
+  offset: number;
+}
+
+/**
+ * Run of character data
+ */
+export interface CharactersToken {
+  type: "characters";
+  data: string;
+  offset: number;
+}
+
+/**
+ * Comment token
+ */
+export interface CommentToken {
+  type: "comment";
+  data: string;
+  offset: number;
+}
+
+/**
+ * DOCTYPE token
+ */
+export interface DoctypeToken {
+  type: "doctype";
+  name: string;
+  offset: number;
+}
+
+/**
+ * End of input
+ */
+export interface EOFToken {
+  type: "eof";
+  offset: number;
+}
+
+export type Token =
+  | StartTagToken
+  | EndTagToken
+  | CharactersToken
+  | CommentToken
+  | DoctypeToken
+  | EOFToken;
+
+/**
+ * Tokenizer states the tree builder may switch to after a start tag
+ */
+export type ContentState = "data" | "rcdata" | "rawtext" | "scriptData" | "plaintext";
+
+/**
+ * Tokenizer options
+ */
+export interface TokenizerOptions {
+  /** Whether `<![CDATA[` opens a CDATA section (true inside foreign content) */
+  allowCDATA?: () => boolean;
+}
+
+enum State {
+  Data,
+  RCDATA,
+  RAWTEXT,
+  ScriptData,
+  PLAINTEXT,
+  TagOpen,
+  EndTagOpen,
+  TagName,
+  ScriptDataEscaped,
+  ScriptDataEscapedDash,
+  ScriptDataEscapedDashDash,
+  ScriptDataEscapedLessThan,
+  ScriptDataDoubleEscapeStart,
+  ScriptDataDoubleEscaped,
+  ScriptDataDoubleEscapedDash,
+  ScriptDataDoubleEscapedDashDash,
+  ScriptDataDoubleEscapedLessThan,
+  ScriptDataDoubleEscapeEnd,
+  BeforeAttributeName,
+  AttributeName,
+  AfterAttributeName,
+  BeforeAttributeValue,
+  AttributeValueDoubleQuoted,
+  AttributeValueSingleQuoted,
+  AttributeValueUnquoted,
+  AfterAttributeValueQuoted,
+  SelfClosingStartTag,
+  BogusComment,
+  MarkupDeclarationOpen,
+  CommentStart,
+  CommentStartDash,
+  Comment,
+  CommentLessThan,
+  CommentLessThanBang,
+  CommentLessThanBangDash,
+  CommentLessThanBangDashDash,
+  CommentEndDash,
+  CommentEnd,
+  CommentEndBang,
+  Doctype,
+  CDATASection,
+}
+
+const CONTENT_STATES: Record<ContentState, State> = {
+  data: State.Data,
+  rcdata: State.RCDATA,
+  rawtext: State.RAWTEXT,
+  scriptData: State.ScriptData,
+  plaintext: State.PLAINTEXT,
+};
+
+const REPLACEMENT_CHARACTER = "\ufffd";
+const LONGEST_REFERENCE_NAME = 32;
+
+function isWhitespace(c: string | undefined): boolean {
+  return c === "\t" || c === "\n" || c === "\f" || c === " ";
+}
+
+function isAsciiAlpha(c: string | undefined): c is string {
+  return c !== undefined && /^[A-Za-z]$/.test(c);
+}
+
+function isAsciiAlphanumeric(c: string | undefined): c is string {
+  return c !== undefined && /^[A-Za-z0-9]$/.test(c);
+}
+
+/**
+ * Decode a numeric character reference code point
+ */
+function decodeCodePoint(codePoint: number): string {
+  if (codePoint === 0 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+    return REPLACEMENT_CHARACTER;
+  }
+  return String.fromCodePoint(NUMERIC_REFERENCE_OVERRIDES[codePoint] ?? codePoint);
+}
+
+/**
+ * Try to consume a character reference starting right after `&` at `start`
+ * Returns the decoded text and the offset after the reference, or null when
+ * the ampersand is not the start of a reference and must be kept as-is
+ */
+export function consumeCharacterReference(
+  input: string,
+  start: number,
+  inAttribute: boolean
+): { value: string; end: number } | null {
+  if (input[start] === "#") {
+    let pos = start + 1;
+    const hex = input[pos] === "x" || input[pos] === "X";
+    if (hex) {
+      pos++;
+    }
+    const digits = hex ? /^[0-9A-Fa-f]+/ : /^[0-9]+/;
+    const match = digits.exec(input.slice(pos, pos + 64));
+    if (!match) {
+      return null;
+    }
+    pos += match[0].length;
+    // Skip any further digits of an absurdly long reference
+    while (digits.test(input[pos] ?? "")) {
+      pos++;
+    }
+    if (input[pos] === ";") {
+      pos++;
+    }
+    const codePoint = match[0].length > 8 ? 0x110000 : Number.parseInt(match[0], hex ? 16 : 10);
+    return { value: decodeCodePoint(codePoint), end: pos };
+  }
+
+  const run = /^[A-Za-z0-9]+/.exec(input.slice(start, start + LONGEST_REFERENCE_NAME));
+  if (!run) {
+    return null;
+  }
+  const name = run[0];
+  if (input[start + name.length] === ";" && name in NAMED_CHARACTER_REFERENCES) {
+    return { value: NAMED_CHARACTER_REFERENCES[name], end: start + name.length + 1 };
+  }
+  for (let length = name.length; length > 0; length--) {
+    const candidate = name.slice(0, length);
+    if (!LEGACY_CHARACTER_REFERENCES.has(candidate)) {
+      continue;
+    }
+    const next = input[start + length];
+    // Historical quirk: `&copy=1` inside attribute values stays literal
+    if (inAttribute && (next === "=" || isAsciiAlphanumeric(next))) {
+      return null;
+    }
+    return { value: NAMED_CHARACTER_REFERENCES[candidate], end: start + length };
+  }
+  return null;
+}
+
+/**
+ * Decode every character reference in a string
+ */
+export function decodeCharacterReferences(value: string, inAttribute: boolean = true): string {
+  let result = "";
+  let pos = 0;
+  while (pos < value.length) {
+    const amp = value.indexOf("&", pos);
+    if (amp === -1) {
+      result += value.slice(pos);
+      break;
+    }
+    result += value.slice(pos, amp);
+    const reference = consumeCharacterReference(value, amp + 1, inAttribute);
+    if (reference) {
+      result += reference.value;
+      pos = reference.end;
+    } else {
+      result += "&";
+      pos = amp + 1;
+    }
+  }
+  return result;
+}
+
+/**
+ * HTML tokenizer following the WHATWG tokenization state machine
+ * Tokens are produced lazily so the tree builder can switch content states
+ * (RCDATA, RAWTEXT, script data, PLAINTEXT) between tokens
+ */
+export class Tokenizer {
+  private readonly input: string;
+  private readonly allowCDATA: () => boolean;
+  private state: State = State.Data;
+  private pos = 0;
+  private queue: Token[] = [];
+  private chars = "";
+  private charsOffset = 0;
+  private tagOffset = 0;
+  private tagName = "";
+  private tagIsEnd = false;
+  private tagSelfClosing = false;
+  private tagAttributes: Attribute[] = [];
+  private tagAttributeNames = new Set<string>();
+  private attrName = "";
+  private attrValue = "";
+  private attrOffset = 0;
+  private attrActive = false;
+  private commentData = "";
+  private temporaryBuffer = "";
+  private lastStartTagName = "";
+  private done = false;
+  /** Offsets in the normalized input of newlines that replaced a CRLF pair, in order */
+  private readonly collapsedNewlines: number[] = [];
+
+  constructor(input: string, options: TokenizerOptions = {}) {
+    // Normalize newlines the way the HTML input stream does
+    this.input = input.replace(/\r\n?/g, (match: string, index: number) => {
+      if (match.length === 2) {
+        this.collapsedNewlines.push(index - this.collapsedNewlines.length);
+      }
+      return "\n";
+    });
+    this.allowCDATA = options.allowCDATA ?? (() => false);
+  }
+
+  /**
+   * Map an offset in the normalized input, as carried by tokens, back to the original input
+   */
+  sourceOffset(offset: number): number {
+    // Count the collapsed CRLF pairs before the offset
+    let low = 0;
+    let high = this.collapsedNewlines.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.collapsedNewlines[middle] < offset) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return offset + low;
+  }
+
+  /**
+   * Switch to a content state (used by the tree builder after raw text start tags)
+   */
+  setContentState(state: ContentState, lastStartTagName?: string): void {
+    this.state = CONTENT_STATES[state];
+    if (lastStartTagName !== undefined) {
+      this.lastStartTagName = lastStartTagName;
+    }
+  }
+
+  /**
+   * Produce the next token
+   */
+  next(): Token {
+    while (this.queue.length === 0) {
+      if (this.done) {
+        return { type: "eof", offset: this.input.length };
+      }
+      this.step();
+    }
+    return this.queue.shift() as Token;
+  }
+
+  private emitChars(data: string, offset: number = this.pos - data.length): void {
+    if (data === "") {
+      return;
+    }
+    if (this.chars === "") {
+      this.charsOffset = Math.max(0, offset);
+    }
+    this.chars += data;
+  }
+
+  private flushChars(): void {
+    if (this.chars !== "") {
+      this.queue.push({ type: "characters", data: this.chars, offset: this.charsOffset });
+      this.chars = "";
+    }
+  }
+
+  private emit(token: Token): void {
+    this.flushChars();
+    this.queue.push(token);
+  }
+
+  private emitEOF(): void {
+    this.emit({ type: "eof", offset: this.input.length });
+    this.done = true;
+  }
+
+  private startTag(isEnd: boolean, offset: number): void {
+    this.tagIsEnd = isEnd;
+    this.tagName = "";
+    this.tagSelfClosing = false;
+    this.tagAttributes = [];
+    this.tagAttributeNames = new Set();
+    this.attrActive = false;
+    this.tagOffset = offset;
+  }
+
+  private startAttribute(): void {
+    this.commitAttribute();
+    this.attrName = "";
+    this.attrValue = "";
+    this.attrOffset = this.pos - 1;
+    this.attrActive = true;
+  }
+
+  private commitAttribute(): void {
+    if (!this.attrActive) {
+      return;
+    }
+    this.attrActive = false;
+    // Duplicate attributes are dropped; the first occurrence wins
+    if (!this.tagAttributeNames.has(this.attrName)) {
+      this.tagAttributeNames.add(this.attrName);
+      this.tagAttributes.push({
+        name: this.attrName,
+        value: this.attrValue,
+        sourceOffset: this.attrOffset,
+      });
+    }
+  }
+
+  private emitTag(): void {
+    this.commitAttribute();
+    this.state = State.Data;
+    if (this.tagIsEnd) {
+      this.emit({ type: "endTag", name: this.tagName, offset: this.tagOffset });
+    } else {
+      this.lastStartTagName = this.tagName;
+      this.emit({
+        type: "startTag",
+        name: this.tagName,
+        attributes: this.tagAttributes,
+        selfClosing: this.tagSelfClosing,
+        offset: this.tagOffset,
+      });
+    }
+  }
+
+  private emitComment(): void {
+    this.emit({ type: "comment", data: this.commentData, offset: this.tagOffset });
+  }
+
+  /**
+   * If the input at `pos` (just after `<`) is an appropriate end tag for the
+   * current raw text element, switch to tag parsing and return true
+   */
+  private tryAppropriateEndTag(): boolean {
+    const name = this.lastStartTagName;
+    if (this.input[this.pos] !== "/" || name === "") {
+      return false;
+    }
+    const candidate = this.input.slice(this.pos + 1, this.pos + 1 + name.length);
+    const after = this.input[this.pos + 1 + name.length];
+    if (
+      candidate.toLowerCase() !== name ||
+      !(isWhitespace(after) || after === "/" || after === ">")
+    ) {
+      return false;
+    }
+    this.startTag(true, this.pos - 1);
+    this.tagName = name;
+    this.pos += 1 + name.length;
+    this.state = State.BeforeAttributeName;
+    if (after === "/") {
+      this.pos++;
+      this.state = State.SelfClosingStartTag;
+    } else if (after === ">") {
+      this.pos++;
+      this.emitTag();
+    }
+    return true;
+  }
+
+  /**
+   * Emit text up to the next character in `stops`, returning the stop character
+   */
+  private consumeTextRun(stops: RegExp): string | undefined {
+    stops.lastIndex = this.pos;
+    const match = stops.exec(this.input);
+    const end = match ? match.index : this.input.length;
+    if (end > this.pos) {
+      this.emitChars(this.input.slice(this.pos, end), this.pos);
+    }
+    this.pos = end;
+    const c = this.input[this.pos];
+    if (c !== undefined) {
+      this.pos++;
+    }
+    return c;
+  }
+
+  private consumeReference(inAttribute: boolean): string {
+    const reference = consumeCharacterReference(this.input, this.pos, inAttribute);
+    if (!reference) {
+      return "&";
+    }
+    this.pos = reference.end;
+    return reference.value;
+  }
+
+  private step(): void {
+    switch (this.state) {
+      case State.Data: {
+        const c = this.consumeTextRun(/[<&\0]/g);
+        if (c === undefined) {
+          this.emitEOF();
+        } else if (c === "<") {
+          this.tagOffset = this.pos - 1;
+          this.state = State.TagOpen;
+        } else if (c === "&") {
+          const offset = this.pos - 1;
+          this.emitChars(this.consumeReference(false), offset);
+        } else {
+          this.emitChars(c);
+        }
+        return;
+      }
+      case State.RCDATA: {
+        const c = this.consumeTextRun(/[<&\0]/g);
+        if (c === undefined) {
+          this.emitEOF();
+        } else if (c === "<") {
+          if (!this.tryAppropriateEndTag()) {
+            this.emitChars("<");
+          }
+        } else if (c === "&") {
+          const offset = this.pos - 1;
+          this.emitChars(this.consumeReference(false), offset);
+        } else {
+          this.emitChars(REPLACEMENT_CHARACTER);
+        }
+        return;
+      }
+      case State.RAWTEXT: {
+        const c = this.consumeTextRun(/[<\0]/g);
+        if (c === undefined) {
+          this.emitEOF();
+        } else if (c === "<") {
+          if (!this.tryAppropriateEndTag()) {
+            this.emitChars("<");
+          }
+        } else {
+          this.emitChars(REPLACEMENT_CHARACTER);
+        }
+        return;
+      }
+      case State.PLAINTEXT: {
+        const c = this.consumeTextRun(/\0/g);
+        if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.emitChars(REPLACEMENT_CHARACTER);
+        }
+        return;
+      }
+      case State.ScriptData: {
+        const c = this.consumeTextRun(/[<\0]/g);
+        if (c === undefined) {
+          this.emitEOF();
+        } else if (c === "\0") {
+          this.emitChars(REPLACEMENT_CHARACTER);
+        } else if (this.tryAppropriateEndTag()) {
+          // Handled as an end tag
+        } else if (this.input.startsWith("!--", this.pos)) {
+          this.pos += 3;
+          this.emitChars("<!--");
+          this.state = State.ScriptDataEscapedDashDash;
+        } else {
+          this.emitChars("<");
+        }
+        return;
+      }
+      default:
+        this.stepCharacter();
+    }
+  }
+
+  private stepCharacter(): void {
+    const c: string | undefined = this.input[this.pos];
+    this.pos++;
+    const reconsume = (state: State) => {
+      this.pos--;
+      this.state = state;
+    };
+
+    switch (this.state) {
+      case State.TagOpen:
+        if (c === "!") {
+          this.state = State.MarkupDeclarationOpen;
+        } else if (c === "/") {
+          this.state = State.EndTagOpen;
+        } else if (isAsciiAlpha(c)) {
+          this.startTag(false, this.tagOffset);
+          reconsume(State.TagName);
+        } else if (c === "?") {
+          this.commentData = "";
+          reconsume(State.BogusComment);
+        } else {
+          this.emitChars("<", this.tagOffset);
+          reconsume(State.Data);
+        }
+        return;
+
+      case State.EndTagOpen:
+        if (isAsciiAlpha(c)) {
+          this.startTag(true, this.tagOffset);
+          reconsume(State.TagName);
+        } else if (c === ">") {
+          this.state = State.Data;
+        } else if (c === undefined) {
+          this.emitChars("</", this.tagOffset);
+          reconsume(State.Data);
+        } else {
+          this.commentData = "";
+          reconsume(State.BogusComment);
+        }
+        return;
+
+      case State.TagName:
+        if (isWhitespace(c)) {
+          this.state = State.BeforeAttributeName;
+        } else if (c === "/") {
+          this.state = State.SelfClosingStartTag;
+        } else if (c === ">") {
+          this.emitTag();
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.tagName += c === "\0" ? REPLACEMENT_CHARACTER : c.toLowerCase();
+        }
+        return;
+
+      case State.BeforeAttributeName:
+        if (isWhitespace(c)) {
+          return;
+        }
+        if (c === "/" || c === ">" || c === undefined) {
+          reconsume(State.AfterAttributeName);
+        } else if (c === "=") {
+          this.startAttribute();
+          this.attrName = c;
+          this.state = State.AttributeName;
+        } else {
+          this.startAttribute();
+          reconsume(State.AttributeName);
+        }
+        return;
+
+      case State.AttributeName:
+        if (isWhitespace(c) || c === "/" || c === ">" || c === undefined) {
+          reconsume(State.AfterAttributeName);
+        } else if (c === "=") {
+          this.state = State.BeforeAttributeValue;
+        } else {
+          this.attrName += c === "\0" ? REPLACEMENT_CHARACTER : c.toLowerCase();
+        }
+        return;
+
+      case State.AfterAttributeName:
+        if (isWhitespace(c)) {
+          return;
+        }
+        if (c === "/") {
+          this.state = State.SelfClosingStartTag;
+        } else if (c === "=") {
+          this.state = State.BeforeAttributeValue;
+        } else if (c === ">") {
+          this.emitTag();
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.startAttribute();
+          reconsume(State.AttributeName);
+        }
+        return;
+
+      case State.BeforeAttributeValue:
+        if (isWhitespace(c)) {
+          return;
+        }
+        if (c === '"') {
+          this.state = State.AttributeValueDoubleQuoted;
+        } else if (c === "'") {
+          this.state = State.AttributeValueSingleQuoted;
+        } else if (c === ">") {
+          this.emitTag();
+        } else {
+          reconsume(State.AttributeValueUnquoted);
+        }
+        return;
+
+      case State.AttributeValueDoubleQuoted:
+      case State.AttributeValueSingleQuoted: {
+        const quote = this.state === State.AttributeValueDoubleQuoted ? '"' : "'";
+        if (c === quote) {
+          this.state = State.AfterAttributeValueQuoted;
+        } else if (c === "&") {
+          this.attrValue += this.consumeReference(true);
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.attrValue += c === "\0" ? REPLACEMENT_CHARACTER : c;
+        }
+        return;
+      }
+
+      case State.AttributeValueUnquoted:
+        if (isWhitespace(c)) {
+          this.state = State.BeforeAttributeName;
+        } else if (c === "&") {
+          this.attrValue += this.consumeReference(true);
+        } else if (c === ">") {
+          this.emitTag();
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.attrValue += c === "\0" ? REPLACEMENT_CHARACTER : c;
+        }
+        return;
+
+      case State.AfterAttributeValueQuoted:
+        if (isWhitespace(c)) {
+          this.state = State.BeforeAttributeName;
+        } else if (c === "/") {
+          this.state = State.SelfClosingStartTag;
+        } else if (c === ">") {
+          this.emitTag();
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          reconsume(State.BeforeAttributeName);
+        }
+        return;
+
+      case State.SelfClosingStartTag:
+        if (c === ">") {
+          this.tagSelfClosing = true;
+          this.emitTag();
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          reconsume(State.BeforeAttributeName);
+        }
+        return;
+
+      case State.BogusComment:
+        if (c === ">") {
+          this.emitComment();
+          this.state = State.Data;
+        } else if (c === undefined) {
+          this.emitComment();
+          this.emitEOF();
+        } else {
+          this.commentData += c === "\0" ? REPLACEMENT_CHARACTER : c;
+        }
+        return;
+
+      case State.MarkupDeclarationOpen:
+        this.pos--;
+        this.commentData = "";
+        if (this.input.startsWith("--", this.pos)) {
+          this.pos += 2;
+          this.state = State.CommentStart;
+        } else if (this.input.slice(this.pos, this.pos + 7).toLowerCase() === "doctype") {
+          this.pos += 7;
+          this.state = State.Doctype;
+        } else if (this.input.startsWith("[CDATA[", this.pos)) {
+          this.pos += 7;
+          if (this.allowCDATA()) {
+            this.state = State.CDATASection;
+          } else {
+            this.commentData = "[CDATA[";
+            this.state = State.BogusComment;
+          }
+        } else {
+          this.state = State.BogusComment;
+        }
+        return;
+
+      case State.CommentStart:
+        if (c === "-") {
+          this.state = State.CommentStartDash;
+        } else if (c === ">") {
+          this.emitComment();
+          this.state = State.Data;
+        } else {
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.CommentStartDash:
+        if (c === "-") {
+          this.state = State.CommentEnd;
+        } else if (c === ">") {
+          this.emitComment();
+          this.state = State.Data;
+        } else if (c === undefined) {
+          this.emitComment();
+          this.emitEOF();
+        } else {
+          this.commentData += "-";
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.Comment:
+        if (c === "<") {
+          this.commentData += c;
+          this.state = State.CommentLessThan;
+        } else if (c === "-") {
+          this.state = State.CommentEndDash;
+        } else if (c === undefined) {
+          this.emitComment();
+          this.emitEOF();
+        } else {
+          this.commentData += c === "\0" ? REPLACEMENT_CHARACTER : c;
+        }
+        return;
+
+      case State.CommentLessThan:
+        if (c === "!") {
+          this.commentData += c;
+          this.state = State.CommentLessThanBang;
+        } else if (c === "<") {
+          this.commentData += c;
+        } else {
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.CommentLessThanBang:
+        if (c === "-") {
+          this.state = State.CommentLessThanBangDash;
+        } else {
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.CommentLessThanBangDash:
+        if (c === "-") {
+          this.state = State.CommentLessThanBangDashDash;
+        } else {
+          reconsume(State.CommentEndDash);
+        }
+        return;
+
+      case State.CommentLessThanBangDashDash:
+        reconsume(State.CommentEnd);
+        return;
+
+      case State.CommentEndDash:
+        if (c === "-") {
+          this.state = State.CommentEnd;
+        } else if (c === undefined) {
+          this.emitComment();
+          this.emitEOF();
+        } else {
+          this.commentData += "-";
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.CommentEnd:
+        if (c === ">") {
+          this.emitComment();
+          this.state = State.Data;
+        } else if (c === "!") {
+          this.state = State.CommentEndBang;
+        } else if (c === "-") {
+          this.commentData += "-";
+        } else if (c === undefined) {
+          this.emitComment();
+          this.emitEOF();
+        } else {
+          this.commentData += "--";
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.CommentEndBang:
+        if (c === "-") {
+          this.commentData += "--!";
+          this.state = State.CommentEndDash;
+        } else if (c === ">") {
+          this.emitComment();
+          this.state = State.Data;
+        } else if (c === undefined) {
+          this.emitComment();
+          this.emitEOF();
+        } else {
+          this.commentData += "--!";
+          reconsume(State.Comment);
+        }
+        return;
+
+      case State.Doctype: {
+        // Every DOCTYPE token ends at the first `>`, whatever its identifiers contain
+        this.pos--;
+        const end = this.input.indexOf(">", this.pos);
+        const body = this.input.slice(this.pos, end === -1 ? this.input.length : end);
+        const name = body.trim().split(/[\t\n\f ]/)[0] ?? "";
+        this.emit({ type: "doctype", name: name.toLowerCase(), offset: this.tagOffset });
+        if (end === -1) {
+          this.pos = this.input.length;
+          this.emitEOF();
+        } else {
+          this.pos = end + 1;
+          this.state = State.Data;
+        }
+        return;
+      }
+
+      case State.CDATASection: {
+        this.pos--;
+        const end = this.input.indexOf("]]>", this.pos);
+        const data = this.input.slice(this.pos, end === -1 ? this.input.length : end);
+        this.emitChars(data, this.pos);
+        if (end === -1) {
+          this.pos = this.input.length;
+          this.emitEOF();
+        } else {
+          this.pos = end + 3;
+          this.state = State.Data;
+        }
+        return;
+      }
+
+      case State.ScriptDataEscaped:
+      case State.ScriptDataEscapedDash:
+      case State.ScriptDataEscapedDashDash:
+        if (c === "-") {
+          this.emitChars(c);
+          this.state =
+            this.state === State.ScriptDataEscaped
+              ? State.ScriptDataEscapedDash
+              : State.ScriptDataEscapedDashDash;
+        } else if (c === "<") {
+          this.state = State.ScriptDataEscapedLessThan;
+        } else if (c === ">" && this.state === State.ScriptDataEscapedDashDash) {
+          this.emitChars(c);
+          this.state = State.ScriptData;
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.emitChars(c === "\0" ? REPLACEMENT_CHARACTER : c);
+          this.state = State.ScriptDataEscaped;
+        }
+        return;
+
+      case State.ScriptDataEscapedLessThan:
+        this.pos--;
+        if (this.tryAppropriateEndTag()) {
+          return;
+        }
+        if (isAsciiAlpha(c)) {
+          this.temporaryBuffer = "";
+          this.emitChars("<", this.pos - 1);
+          this.state = State.ScriptDataDoubleEscapeStart;
+        } else {
+          this.emitChars("<", this.pos - 1);
+          this.state = State.ScriptDataEscaped;
+        }
+        return;
+
+      case State.ScriptDataDoubleEscapeStart:
+      case State.ScriptDataDoubleEscapeEnd: {
+        const starting = this.state === State.ScriptDataDoubleEscapeStart;
+        if (isWhitespace(c) || c === "/" || c === ">") {
+          const matched = this.temporaryBuffer === "script";
+          this.state =
+            matched === starting ? State.ScriptDataDoubleEscaped : State.ScriptDataEscaped;
+          this.emitChars(c as string);
+        } else if (isAsciiAlpha(c)) {
+          this.temporaryBuffer += c.toLowerCase();
+          this.emitChars(c);
+        } else {
+          reconsume(starting ? State.ScriptDataEscaped : State.ScriptDataDoubleEscaped);
+        }
+        return;
+      }
+
+      case State.ScriptDataDoubleEscaped:
+      case State.ScriptDataDoubleEscapedDash:
+      case State.ScriptDataDoubleEscapedDashDash:
+        if (c === "-") {
+          this.emitChars(c);
+          this.state =
+            this.state === State.ScriptDataDoubleEscaped
+              ? State.ScriptDataDoubleEscapedDash
+              : State.ScriptDataDoubleEscapedDashDash;
+        } else if (c === "<") {
+          this.emitChars(c);
+          this.state = State.ScriptDataDoubleEscapedLessThan;
+        } else if (c === ">" && this.state === State.ScriptDataDoubleEscapedDashDash) {
+          this.emitChars(c);
+          this.state = State.ScriptData;
+        } else if (c === undefined) {
+          this.emitEOF();
+        } else {
+          this.emitChars(c === "\0" ? REPLACEMENT_CHARACTER : c);
+          this.state = State.ScriptDataDoubleEscaped;
+        }
+        return;
+
+      case State.ScriptDataDoubleEscapedLessThan:
+        if (c === "/") {
+          this.temporaryBuffer = "";
+          this.emitChars(c);
+          this.state = State.ScriptDataDoubleEscapeEnd;
+        } else {
+          reconsume(State.ScriptDataDoubleEscaped);
+        }
+        return;
+    }
+  }
+}
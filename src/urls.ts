@@ -0,0 +1,248 @@
+import { type Attribute, type ElementNode, getAttribute, HTML_NAMESPACE } from "./dom";
+
+/**
+ * How the value of a URL-bearing attribute is parsed
+ * - url: the whole value is one URL
+ * - srcset: comma-separated image candidates, each a URL with an optional descriptor
+ * - refresh: `<meta http-equiv="refresh">` content, a delay optionally followed by `url=`
+ */
+export type UrlAttributeType = "url" | "srcset" | "refresh";
+
+/**
+ * URL-bearing attributes and how their values are parsed
+ * Keys are attribute names as serialized, e.g. `xlink:href`
+ */
+export const DEFAULT_URL_ATTRIBUTES: Record<string, UrlAttributeType> = {
+  href: "url",
+  src: "url",
+  action: "url",
+  formaction: "url",
+  poster: "url",
+  cite: "url",
+  background: "url",
+  "xlink:href": "url",
+  srcset: "srcset",
+  content: "refresh",
+};
+
+/**
+ * Base used to tell relative URLs apart when no base URL is configured; never appears in output
+ */
+export const PLACEHOLDER_BASE_URL = "https://relative.invalid/";
+
+/**
+ * How a URL refers to its target, or null when it is not a valid URL
+ */
+export function classifyUrl(value: string): "absolute" | "protocol-relative" | "relative" | null {
+  try {
+    new URL(value);
+    return "absolute";
+  } catch {
+    // Not absolute, try it as a relative URL
+  }
+  try {
+    const url = new URL(value, PLACEHOLDER_BASE_URL);
+    // Only a network-path reference (`//host`) can replace the base's host
+    return url.host === new URL(PLACEHOLDER_BASE_URL).host ? "relative" : "protocol-relative";
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scheme of a URL the way a browser's URL parser reads it (lowercase, with the colon),
+ * or null for relative URLs
+ * Leading and trailing C0 controls and spaces are stripped and tabs and newlines removed
+ * anywhere first, so `java\tscript:` and `\x01javascript:` are both `javascript:`
+ */
+export function getUrlScheme(value: string): string | null {
+  let start = 0;
+  let end = value.length;
+  while (start < end && value.charCodeAt(start) <= 0x20) {
+    start++;
+  }
+  while (end > start && value.charCodeAt(end - 1) <= 0x20) {
+    end--;
+  }
+  const normalized = value.slice(start, end).replace(/[\t\n\r]/g, "");
+  const match = /^([a-z][a-z\d+.-]*):/i.exec(normalized);
+  return match ? `${match[1].toLowerCase()}:` : null;
+}
+
+/**
+ * MIME type and decoded size of a data URL
+ */
+export interface DataUrlInfo {
+  /** Lowercase MIME type essence, e.g. `image/png` */
+  mimeType: string;
+  /** Decoded size in bytes */
+  size: number;
+}
+
+/**
+ * Read the MIME type and decoded size of a parsed `data:` URL (Fetch "data: URL processor")
+ * Returns null when browsers would fail to load it, e.g. on invalid base64
+ */
+export function parseDataUrl(url: URL): DataUrlInfo | null {
+  const body = url.href.slice("data:".length);
+  const comma = body.indexOf(",");
+  if (comma === -1) {
+    return null;
+  }
+
+  const parameters = body.slice(0, comma).split(";");
+  const mimeType = parameters[0].trim().toLowerCase() || "text/plain";
+  const isBase64 =
+    parameters.length > 1 && parameters[parameters.length - 1].trim().toLowerCase() === "base64";
+  const data = body
+    .slice(comma + 1)
+    .replace(/%([\da-f]{2})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+
+  if (!isBase64) {
+    return { mimeType, size: data.length };
+  }
+
+  let encoded = data.replace(/[\t\n\f\r ]/g, "");
+  if (encoded.length % 4 === 0) {
+    encoded = encoded.replace(/={1,2}$/, "");
+  }
+  if (encoded.length % 4 === 1 || /[^A-Za-z\d+/]/.test(encoded)) {
+    return null;
+  }
+  return { mimeType, size: Math.floor((encoded.length * 3) / 4) };
+}
+
+/**
+ * Image candidate of a `srcset` attribute
+ */
+interface SrcsetCandidate {
+  url: string;
+  /** Width or density descriptor (e.g. `2x`, `640w`), empty when absent */
+  descriptor: string;
+}
+
+/**
+ * Split a `srcset` value into image candidates (HTML "parse a srcset attribute")
+ * URLs run to the next whitespace, so commas inside data URLs stay part of the URL
+ */
+function parseSrcset(value: string): SrcsetCandidate[] {
+  const candidates: SrcsetCandidate[] = [];
+  let position = 0;
+
+  while (position < value.length) {
+    while (position < value.length && /[\s,]/.test(value[position])) {
+      position++;
+    }
+    if (position >= value.length) {
+      break;
+    }
+
+    const start = position;
+    while (position < value.length && !/\s/.test(value[position])) {
+      position++;
+    }
+    let url = value.slice(start, position);
+    let descriptor = "";
+
+    if (url.endsWith(",")) {
+      url = url.replace(/,+$/, "");
+    } else {
+      // Descriptors run to the next comma outside parentheses
+      const descriptorStart = position;
+      let inParens = false;
+      while (position < value.length && (inParens || value[position] !== ",")) {
+        if (value[position] === "(") {
+          inParens = true;
+        } else if (value[position] === ")") {
+          inParens = false;
+        }
+        position++;
+      }
+      descriptor = value.slice(descriptorStart, position).trim();
+    }
+
+    candidates.push({ url, descriptor });
+  }
+
+  return candidates;
+}
+
+/**
+ * Locate the URL in `<meta http-equiv="refresh">` content (HTML "shared declarative refresh steps")
+ * Returns the URL's start and end offsets, or null when the content has no URL
+ */
+function findRefreshUrl(value: string): [number, number] | null {
+  const prefix =
+    /^[\t\n\f\r ]*[\d.]+(?:[\t\n\f\r ]*[;,][\t\n\f\r ]*|[\t\n\f\r ]+)(?:url[\t\n\f\r ]*=[\t\n\f\r ]*)?/i.exec(
+      value
+    );
+  if (!prefix || prefix[0].length === value.length) {
+    return null;
+  }
+
+  let start = prefix[0].length;
+  let end = value.length;
+  const quote = value[start];
+  if (quote === '"' || quote === "'") {
+    start++;
+    const closing = value.indexOf(quote, start);
+    if (closing !== -1) {
+      end = closing;
+    }
+  }
+  return [start, end];
+}
+
+/**
+ * Rewrite every URL in an attribute value according to the attribute's type
+ * `rewrite` returns the URL to keep, or null when the URL is not allowed: such URLs
+ * become `#`, except in `srcset` where the whole candidate is dropped
+ */
+export function rewriteUrlAttribute(
+  element: ElementNode,
+  attr: Attribute,
+  type: UrlAttributeType,
+  rewrite: (url: string) => string | null
+): void {
+  switch (type) {
+    case "url":
+      if (attr.value !== "") {
+        attr.value = rewrite(attr.value) ?? "#";
+      }
+      return;
+
+    case "srcset": {
+      const candidates = parseSrcset(attr.value);
+      const kept = candidates.flatMap((candidate) => {
+        const url = rewrite(candidate.url);
+        return url === null ? [] : [{ ...candidate, url }];
+      });
+      if (
+        kept.length !== candidates.length ||
+        kept.some((candidate, index) => candidate.url !== candidates[index].url)
+      ) {
+        attr.value = kept
+          .map(({ url, descriptor }) => (descriptor ? `${url} ${descriptor}` : url))
+          .join(", ");
+      }
+      return;
+    }
+
+    case "refresh": {
+      if (
+        element.namespace !== HTML_NAMESPACE ||
+        element.tagName !== "meta" ||
+        getAttribute(element, "http-equiv")?.trim().toLowerCase() !== "refresh"
+      ) {
+        return;
+      }
+      const range = findRefreshUrl(attr.value);
+      if (range) {
+        const [start, end] = range;
+        const url = rewrite(attr.value.slice(start, end)) ?? "#";
+        attr.value = attr.value.slice(0, start) + url + attr.value.slice(end);
+      }
+      return;
+    }
+  }
+}